@@ -0,0 +1,729 @@
+import type { Disposable } from '../helpers/disposable'
+import type { Sash, SashEvent } from '../sash'
+import type { LayoutPriority, Sizing, View } from '../split-view'
+import EventEmitter from 'eventemitter3'
+import styles from '../allotment.module.css'
+import { Orientation, SashState } from '../sash'
+import { SizingUtils, SplitView } from '../split-view'
+
+/** The side of a leaf a new view is placed on when splitting it. */
+export enum Direction {
+  Up,
+  Down,
+  Left,
+  Right,
+}
+
+/** A descriptor for a leaf of a {@link GridView}, rendered as a single pane. */
+export interface GridLeafDescriptor {
+  type: 'leaf'
+
+  /** A unique id for the leaf. */
+  id: string
+
+  /**
+   * The size of the leaf along its parent's axis. Sizes are relative to
+   * their siblings when the grid is first laid out.
+   */
+  size?: number
+
+  /** A minimum size for the leaf along its parent's axis. */
+  minimumSize?: number
+
+  /** A maximum size for the leaf along its parent's axis. */
+  maximumSize?: number
+
+  priority?: LayoutPriority
+
+  snap?: boolean
+}
+
+/**
+ * A descriptor for a branch of a {@link GridView}. The children of a branch are
+ * laid out orthogonally to the children of its parent.
+ */
+export interface GridBranchDescriptor {
+  type: 'branch'
+
+  /**
+   * Which axis the children of the branch align on. Only used for the root
+   * branch, nested branches always align orthogonally to their parent.
+   */
+  orientation?: Orientation
+
+  /**
+   * The size of the branch along its parent's axis. Sizes are relative to
+   * their siblings when the grid is first laid out.
+   */
+  size?: number
+
+  children: GridNodeDescriptor[]
+}
+
+export type GridNodeDescriptor = GridLeafDescriptor | GridBranchDescriptor
+
+export interface GridViewOptions {
+  /** Which axis the children of the root branch align on. */
+  readonly orientation?: Orientation
+
+  /** Resize each view proportionally when resizing the GridView. */
+  readonly proportionalLayout?: boolean
+
+  /** Whether to render a separator between views. */
+  readonly separator?: boolean
+}
+
+type GridNode = BranchNode | LeafNode
+
+function orthogonal(orientation: Orientation): Orientation {
+  return orientation === Orientation.Vertical
+    ? Orientation.Horizontal
+    : Orientation.Vertical
+}
+
+function getDirectionOrientation(direction: Direction): Orientation {
+  return direction === Direction.Up || direction === Direction.Down
+    ? Orientation.Vertical
+    : Orientation.Horizontal
+}
+
+/** Fill in missing sizes with the average of the sizes that were provided. */
+function getInitialSizes(children: GridNodeDescriptor[]): number[] {
+  const sizes = children
+    .map(child => child.size)
+    .filter((size): size is number => typeof size === 'number')
+
+  const fallbackSize
+    = sizes.length > 0 ? sizes.reduce((a, b) => a + b, 0) / sizes.length : 1
+
+  return children.map(child => child.size ?? fallbackSize)
+}
+
+class LeafNode implements View {
+  readonly element: HTMLElement
+  readonly id: string
+  readonly minimumSize: number
+  readonly maximumSize: number
+  readonly priority?: LayoutPriority
+  readonly snap: boolean
+
+  readonly orthogonalMinimumSize = 0
+  readonly orthogonalMaximumSize = Number.POSITIVE_INFINITY
+
+  public parent: BranchNode | undefined
+
+  constructor(descriptor: Omit<GridLeafDescriptor, 'type'>) {
+    this.id = descriptor.id
+    this.minimumSize = descriptor.minimumSize ?? 30
+    this.maximumSize = descriptor.maximumSize ?? Number.POSITIVE_INFINITY
+    this.priority = descriptor.priority
+    this.snap = descriptor.snap ?? false
+
+    this.element = document.createElement('div')
+    this.element.classList.add('grid-view-leaf')
+    this.element.dataset.leafId = this.id
+  }
+
+  /** The leaf is its own container within its parent branch. */
+  get container(): HTMLElement {
+    return this.element
+  }
+
+  layout(_size: number): void {}
+}
+
+class BranchNode implements View, Disposable {
+  readonly element: HTMLElement
+  readonly container: HTMLElement
+  readonly orientation: Orientation
+  readonly children: GridNode[] = []
+  readonly splitView: SplitView
+
+  public parent: BranchNode | undefined
+
+  /** The size of the branch along its own axis. */
+  public size = 0
+
+  /** The size of the branch across its own axis. */
+  public orthogonalSize = 0
+
+  private viewContainer: HTMLElement
+
+  /** The size along the parent's axis, which is across this branch's axis. */
+  get minimumSize(): number {
+    return Math.max(0, ...this.children.map(child => child.orthogonalMinimumSize))
+  }
+
+  get maximumSize(): number {
+    return Math.min(
+      Number.POSITIVE_INFINITY,
+      ...this.children.map(child => child.orthogonalMaximumSize),
+    )
+  }
+
+  /** The size along this branch's own axis. */
+  get orthogonalMinimumSize(): number {
+    return this.children.reduce((r, child) => r + child.minimumSize, 0)
+  }
+
+  get orthogonalMaximumSize(): number {
+    return this.children.reduce((r, child) => r + child.maximumSize, 0)
+  }
+
+  constructor(
+    orientation: Orientation,
+    options: GridViewOptions,
+    children: GridNode[] = [],
+    sizes: number[] = [],
+    onDidChange?: () => void,
+  ) {
+    this.orientation = orientation
+
+    this.element = document.createElement('div')
+    this.element.classList.add(
+      'split-view',
+      'grid-view-branch',
+      styles.splitView,
+      ...(orientation === Orientation.Vertical
+        ? ['split-view-vertical', styles.vertical]
+        : ['split-view-horizontal', styles.horizontal]),
+      ...(options.separator ? ['split-view-separator-border', styles.separatorBorder] : []),
+    )
+
+    this.viewContainer = document.createElement('div')
+    this.viewContainer.classList.add('split-view-container', styles.splitViewContainer)
+    this.element.append(this.viewContainer)
+
+    this.container = document.createElement('div')
+    this.container.append(this.element)
+
+    for (const child of children) {
+      child.parent = this
+      this.children.push(child)
+      this.viewContainer.append(child.container)
+    }
+
+    this.splitView = new SplitView(
+      this.element,
+      {
+        orientation,
+        proportionalLayout: options.proportionalLayout,
+        getSashOrthogonalSize: () => this.orthogonalSize,
+        ...(children.length > 0 && {
+          descriptor: {
+            size: sizes.reduce((a, b) => a + b, 0),
+            views: children.map((child, index) => ({
+              container: child.container,
+              size: sizes[index],
+              view: child,
+            })),
+          },
+        }),
+      },
+      onDidChange,
+    )
+  }
+
+  /**
+   * This will be called by the parent {@link SplitView}, with the size of
+   * this branch along the parent's axis.
+   */
+  layout(size: number): void {
+    this.orthogonalSize = size
+    this.layoutBranch()
+  }
+
+  /**
+   * Layout the children of this branch. Nested branches span this branch's
+   * orthogonal size, which keeps their sashes aligned with this branch.
+   */
+  layoutBranch(): void {
+    for (const child of this.children) {
+      if (child instanceof BranchNode) {
+        child.size = this.orthogonalSize
+      }
+    }
+
+    this.splitView.layout(this.size)
+  }
+
+  addChild(node: GridNode, size: number | Sizing, index: number): void {
+    node.parent = this
+    this.children.splice(index, 0, node)
+    this.viewContainer.append(node.container)
+
+    if (node instanceof BranchNode) {
+      node.size = this.orthogonalSize
+    }
+
+    this.splitView.addView(node.container, node, size, index)
+  }
+
+  detachChild(index: number, neighbourIndex?: number): GridNode {
+    const [node] = this.children.splice(index, 1)
+
+    this.splitView.removeView(
+      index,
+      neighbourIndex === undefined ? undefined : SizingUtils.Split(neighbourIndex),
+    )
+    node.container.remove()
+    node.parent = undefined
+
+    return node
+  }
+
+  getChildSize(index: number): number {
+    return this.splitView.getViewSize(index)
+  }
+
+  getChildSizes(): number[] {
+    return this.children.map((_, index) => this.getChildSize(index))
+  }
+
+  /** The position of each sash along this branch's axis. */
+  getSashPositions(): number[] {
+    let position = 0
+
+    return this.getChildSizes().slice(0, -1).map(size => (position += size))
+  }
+
+  dispose(): void {
+    this.splitView.dispose()
+    this.container.remove()
+  }
+}
+
+/**
+ * The {@link GridView} lays out views in two dimensions, as a tree of branches
+ * and leaves built on nested {@link SplitView split views}. The whole tree is
+ * laid out synchronously from the root, so sashes of nested branches always
+ * line up with the branches around them. Sashes of sibling branches which line
+ * up when a drag starts are dragged together, so they stay aligned.
+ */
+export class GridView extends EventEmitter implements Disposable {
+  private container: HTMLElement
+  private options: GridViewOptions
+  private root: BranchNode
+  private leaves = new Map<string, LeafNode>()
+  private width = 0
+  private height = 0
+
+  // Sashes which drag the sashes aligned with them
+  private boundSashes = new WeakSet<Sash>()
+
+  /** The sash being dragged, and the sashes aligned with it which follow it. */
+  private linkedDrag: { sash: Sash, alignedSashes: Sash[] } | undefined
+
+  get orientation(): Orientation {
+    return this.root.orientation
+  }
+
+  /** Create a new {@link GridView} instance. */
+  constructor(
+    container: HTMLElement,
+    descriptor: GridBranchDescriptor,
+    options: GridViewOptions = {},
+  ) {
+    super()
+
+    this.container = container
+    this.options = options
+    this.root = this.createBranch(
+      descriptor,
+      descriptor.orientation ?? options.orientation ?? Orientation.Horizontal,
+    )
+
+    this.container.append(this.root.element)
+    this.bindSashes(this.root)
+  }
+
+  /** The ids of all leaves, in tree order. */
+  public getLeafIds(): string[] {
+    return [...this.leaves.keys()]
+  }
+
+  /** The element of a leaf, which its content should be rendered into. */
+  public getLeafElement(id: string): HTMLElement | undefined {
+    return this.leaves.get(id)?.element
+  }
+
+  public layout(width: number = this.width, height: number = this.height): void {
+    this.width = width
+    this.height = height
+
+    const vertical = this.root.orientation === Orientation.Vertical
+
+    this.root.size = vertical ? height : width
+    this.root.orthogonalSize = vertical ? width : height
+    this.root.layoutBranch()
+    this.bindSashes(this.root)
+  }
+
+  /**
+   * Split a leaf, placing a new leaf on the given side of it. The new leaf
+   * takes half of the space of the leaf being split.
+   */
+  public splitView(
+    leafId: string,
+    direction: Direction,
+    leaf: string | Omit<GridLeafDescriptor, 'type'>,
+  ): void {
+    const descriptor = typeof leaf === 'string' ? { id: leaf } : leaf
+
+    if (this.leaves.has(descriptor.id)) {
+      throw new Error(`A leaf with id "${descriptor.id}" already exists`)
+    }
+
+    const node = new LeafNode(descriptor)
+
+    this.insertNode(this.getLeaf(leafId), direction, node)
+    this.leaves.set(node.id, node)
+    this.emitChange()
+  }
+
+  /** Remove a leaf. Its space is given to its neighbour. */
+  public removeView(leafId: string): void {
+    const leaf = this.getLeaf(leafId)
+
+    if (this.leaves.size === 1) {
+      throw new Error('Cannot remove the last leaf')
+    }
+
+    this.detachNode(leaf)
+    this.leaves.delete(leafId)
+    this.emitChange()
+  }
+
+  /** Move a leaf to the given side of another leaf. */
+  public moveView(leafId: string, targetLeafId: string, direction: Direction): void {
+    if (leafId === targetLeafId) {
+      return
+    }
+
+    const leaf = this.getLeaf(leafId)
+    const target = this.getLeaf(targetLeafId)
+
+    this.detachNode(leaf)
+    this.insertNode(target, direction, leaf)
+    this.emitChange()
+  }
+
+  /**
+   * Whether {@link moveView} keeps every leaf within its minimum and maximum
+   * size. The target has to make room for both leaves, and the siblings the
+   * leaf leaves behind have to be able to fill its space.
+   */
+  public canMoveView(leafId: string, targetLeafId: string, direction: Direction): boolean {
+    if (leafId === targetLeafId) {
+      return false
+    }
+
+    const leaf = this.getLeaf(leafId)
+    const target = this.getLeaf(targetLeafId)
+    const parent = target.parent!
+    const siblings = leaf.parent!.children.filter(child => child !== leaf)
+
+    // A single remaining sibling takes the place of its branch instead
+    if (
+      siblings.length > 1
+      && siblings.reduce((r, child) => r + child.maximumSize, 0) < leaf.parent!.size
+    ) {
+      return false
+    }
+
+    const availableSize = parent.orientation === getDirectionOrientation(direction)
+      ? parent.getChildSize(parent.children.indexOf(target))
+      : parent.orthogonalSize
+
+    return availableSize >= leaf.minimumSize + target.minimumSize
+  }
+
+  /** Whether {@link swapViews} keeps both leaves within their minimum and maximum size. */
+  public canSwapViews(leafId: string, otherLeafId: string): boolean {
+    if (leafId === otherLeafId) {
+      return false
+    }
+
+    const leaf = this.getLeaf(leafId)
+    const other = this.getLeaf(otherLeafId)
+    const leafSize = leaf.parent!.getChildSize(leaf.parent!.children.indexOf(leaf))
+    const otherSize = other.parent!.getChildSize(other.parent!.children.indexOf(other))
+
+    return otherSize >= leaf.minimumSize && otherSize <= leaf.maximumSize
+      && leafSize >= other.minimumSize && leafSize <= other.maximumSize
+  }
+
+  /** Swap the positions of two leaves. Sizes stay with their positions. */
+  public swapViews(leafId: string, otherLeafId: string): void {
+    if (leafId === otherLeafId) {
+      return
+    }
+
+    const leaf = this.getLeaf(leafId)
+    const other = this.getLeaf(otherLeafId)
+    const leafParent = leaf.parent!
+    const otherParent = other.parent!
+    const leafSizes = leafParent.getChildSizes()
+    const otherSizes = otherParent.getChildSizes()
+
+    const leafPlacement = { parent: leafParent, index: leafParent.children.indexOf(leaf), node: other }
+    const otherPlacement = { parent: otherParent, index: otherParent.children.indexOf(other), node: leaf }
+
+    // Within one branch, remove the later child first so the earlier index stays valid
+    const [first, second] = leafPlacement.index < otherPlacement.index
+      ? [leafPlacement, otherPlacement]
+      : [otherPlacement, leafPlacement]
+
+    second.parent.detachChild(second.index)
+    first.parent.detachChild(first.index)
+    first.parent.addChild(first.node, 0, first.index)
+    second.parent.addChild(second.node, 0, second.index)
+
+    leafParent.splitView.resizeViews(leafSizes)
+
+    if (otherParent !== leafParent) {
+      otherParent.splitView.resizeViews(otherSizes)
+    }
+
+    this.layout()
+    this.emitChange()
+  }
+
+  /** Describe the current tree, with the current size of every node. */
+  public toJSON(): GridBranchDescriptor {
+    return {
+      ...this.serializeBranch(this.root, this.root.size),
+      orientation: this.root.orientation,
+    }
+  }
+
+  public dispose(): void {
+    this.disposeBranch(this.root)
+    this.leaves.clear()
+  }
+
+  private createBranch(descriptor: GridBranchDescriptor, orientation: Orientation): BranchNode {
+    const children = descriptor.children.map(child =>
+      child.type === 'branch'
+        ? this.createBranch(child, orthogonal(orientation))
+        : this.createLeaf(child),
+    )
+
+    return new BranchNode(
+      orientation,
+      this.options,
+      children,
+      getInitialSizes(descriptor.children),
+      () => this.emitChange(),
+    )
+  }
+
+  private createLeaf(descriptor: GridLeafDescriptor): LeafNode {
+    if (this.leaves.has(descriptor.id)) {
+      throw new Error(`A leaf with id "${descriptor.id}" already exists`)
+    }
+
+    const leaf = new LeafNode(descriptor)
+    this.leaves.set(leaf.id, leaf)
+
+    return leaf
+  }
+
+  private getLeaf(id: string): LeafNode {
+    const leaf = this.leaves.get(id)
+
+    if (!leaf) {
+      throw new Error(`No leaf with id "${id}"`)
+    }
+
+    return leaf
+  }
+
+  private insertNode(target: LeafNode, direction: Direction, node: GridNode): void {
+    const parent = target.parent!
+    const index = parent.children.indexOf(target)
+    const orientation = getDirectionOrientation(direction)
+    const before = direction === Direction.Up || direction === Direction.Left
+
+    if (parent.orientation === orientation) {
+      parent.addChild(node, SizingUtils.Split(index), before ? index : index + 1)
+    }
+    else {
+      // Replace the target with a branch holding the target and the new node
+      const size = parent.getChildSize(index)
+      parent.detachChild(index)
+
+      const branch = new BranchNode(
+        orientation,
+        this.options,
+        before ? [node, target] : [target, node],
+        [1, 1],
+        () => this.emitChange(),
+      )
+
+      parent.addChild(branch, size, index)
+    }
+
+    this.normalize()
+    this.layout()
+  }
+
+  /** Remove a node from the tree, collapsing branches left with one child. */
+  private detachNode(node: GridNode): void {
+    const parent = node.parent!
+    const index = parent.children.indexOf(node)
+
+    parent.detachChild(index, Math.max(index - 1, 0))
+
+    if (parent.children.length === 1 && parent.parent) {
+      const grandparent = parent.parent
+      const parentIndex = grandparent.children.indexOf(parent)
+      const sizes = grandparent.getChildSizes()
+      const child = parent.detachChild(0)
+
+      grandparent.detachChild(parentIndex)
+      parent.dispose()
+
+      if (child instanceof BranchNode) {
+        // The child aligns on the same axis as the grandparent, so adopt its children
+        const childSizes = child.getChildSizes()
+
+        for (const [i, grandchild] of [...child.children].entries()) {
+          child.detachChild(0)
+          grandparent.addChild(grandchild, 0, parentIndex + i)
+        }
+
+        sizes.splice(parentIndex, 1, ...childSizes)
+        child.dispose()
+      }
+      else {
+        grandparent.addChild(child, 0, parentIndex)
+      }
+
+      // Adding a child squeezes its neighbours, so every child gets its size back afterwards
+      grandparent.splitView.resizeViews(sizes)
+    }
+
+    this.normalize()
+    this.layout()
+  }
+
+  /** Promote the only child of the root when it is a branch. */
+  private normalize(): void {
+    const [child] = this.root.children
+
+    if (this.root.children.length !== 1 || !(child instanceof BranchNode)) {
+      return
+    }
+
+    this.root.detachChild(0)
+    this.root.dispose()
+    this.root.element.remove()
+
+    this.root = child
+    this.container.append(child.element)
+  }
+
+  /** Listen for drags of the sashes of a branch and its descendants which are not listened to yet. */
+  private bindSashes(branch: BranchNode): void {
+    for (const sash of branch.splitView.getSashes()) {
+      if (!this.boundSashes.has(sash)) {
+        this.boundSashes.add(sash)
+        sash.on('start', (event: SashEvent) => this.onSashStart(branch, sash, event))
+        sash.on('change', (event: SashEvent) => this.forwardDrag(sash, 'change', event))
+        sash.on('end', () => this.forwardDrag(sash, 'end'))
+        sash.on('cancel', () => this.forwardDrag(sash, 'cancel'))
+      }
+    }
+
+    for (const child of branch.children) {
+      if (child instanceof BranchNode) {
+        this.bindSashes(child)
+      }
+    }
+  }
+
+  /** The sashes of the sibling branches of a branch which are at the same position as one of its sashes. */
+  private getAlignedSashes(branch: BranchNode, sash: Sash): Sash[] {
+    const position = branch.getSashPositions()[branch.splitView.getSashes().indexOf(sash)]
+
+    if (!branch.parent || position === undefined) {
+      return []
+    }
+
+    return branch.parent.children.flatMap((sibling) => {
+      if (!(sibling instanceof BranchNode) || sibling === branch) {
+        return []
+      }
+
+      const index = sibling.getSashPositions().findIndex(p => Math.abs(p - position) < 1)
+      const alignedSash = sibling.splitView.getSashes()[index]
+
+      return alignedSash && alignedSash.state !== SashState.Disabled ? [alignedSash] : []
+    })
+  }
+
+  /** Drag the sashes aligned with a dragged sash along with it, by passing on its events. */
+  private onSashStart(branch: BranchNode, sash: Sash, event: SashEvent): void {
+    // The sashes a drag is passed on to start too
+    if (this.linkedDrag) {
+      return
+    }
+
+    const alignedSashes = this.getAlignedSashes(branch, sash)
+
+    if (alignedSashes.length > 0) {
+      this.linkedDrag = { sash, alignedSashes }
+      this.forwardDrag(sash, 'start', event)
+    }
+  }
+
+  private forwardDrag(sash: Sash, type: 'start' | 'change' | 'end' | 'cancel', event?: SashEvent): void {
+    const drag = this.linkedDrag
+
+    if (drag?.sash !== sash) {
+      return
+    }
+
+    if (type === 'end' || type === 'cancel') {
+      this.linkedDrag = undefined
+    }
+
+    for (const alignedSash of drag.alignedSashes) alignedSash.emit(type, event)
+  }
+
+  private serializeBranch(branch: BranchNode, size: number): GridBranchDescriptor {
+    return {
+      type: 'branch',
+      size,
+      children: branch.children.map((child, index) =>
+        child instanceof BranchNode
+          ? this.serializeBranch(child, branch.getChildSize(index))
+          : {
+              type: 'leaf',
+              id: child.id,
+              size: branch.getChildSize(index),
+              minimumSize: child.minimumSize,
+              maximumSize: child.maximumSize,
+              ...(child.priority !== undefined && { priority: child.priority }),
+              snap: child.snap,
+            },
+      ),
+    }
+  }
+
+  private disposeBranch(branch: BranchNode): void {
+    for (const child of branch.children) {
+      if (child instanceof BranchNode) {
+        this.disposeBranch(child)
+      }
+    }
+
+    branch.dispose()
+    branch.element.remove()
+  }
+
+  private emitChange(): void {
+    this.emit('change')
+  }
+}
@@ -1,9 +1,7 @@
-let _isIOS = false
 let _isMacintosh = false
 let _userAgent: string | undefined
 
 interface INavigator {
-  maxTouchPoints?: number
   userAgent: string
 }
 
@@ -13,13 +11,18 @@ declare const navigator: INavigator
 if (typeof navigator === 'object') {
   _userAgent = navigator.userAgent
   _isMacintosh = _userAgent.includes('Macintosh')
-  _isIOS
-    = (_userAgent.includes('Macintosh')
-      || _userAgent.includes('iPad')
-      || _userAgent.includes('iPhone'))
-    && !!navigator.maxTouchPoints
-    && navigator.maxTouchPoints > 0
 }
 
-export const isIOS = _isIOS
 export const isMacintosh = _isMacintosh
+
+/** Whether the user has asked the system to minimize non-essential motion. */
+export function prefersReducedMotion(): boolean {
+  return typeof matchMedia === 'function'
+    && matchMedia('(prefers-reduced-motion: reduce)').matches
+}
+
+/** Whether the primary pointer is imprecise, such as a finger on a touch screen. */
+export function prefersCoarsePointer(): boolean {
+  return typeof matchMedia === 'function'
+    && matchMedia('(pointer: coarse)').matches
+}
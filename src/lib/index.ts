@@ -1,20 +1,33 @@
 // Components
 export { default as Allotment } from './Allotment.vue'
 // Types
-export type { AllotmentHandle, AllotmentProps } from './Allotment.vue'
+export type { AllotmentBeforeResizeEvent, AllotmentBreakpoint, AllotmentChangeEvent, AllotmentChangeReason, AllotmentDragEndEvent, AllotmentHandle, AllotmentProps, AllotmentSashDoubleClickAction, AllotmentSashSlotProps, AllotmentSizes, AllotmentTheme } from './Allotment.vue'
+export { default as AllotmentGrid } from './AllotmentGrid.vue'
+export type { AllotmentGridHandle, AllotmentGridProps } from './AllotmentGrid.vue'
 
 // Re-export core functionality for advanced use cases
+export { Direction, GridView } from './grid-view'
+export type { GridBranchDescriptor, GridLeafDescriptor, GridNodeDescriptor, GridViewOptions } from './grid-view'
 export { LayoutService } from './layout-service'
+export { LocalStorageAdapter, MemoryStorageAdapter, SessionStorageAdapter, WebStorageAdapter } from './layout-storage'
+export type { PersistedLayout, StorageAdapter } from './layout-storage'
+export { PaneDrag } from './pane-drag'
+export type { DropPosition, PaneDragOptions } from './pane-drag'
 export { PaneView } from './pane-view'
 
 export { default as Pane } from './Pane.vue'
 export type { PaneProps } from './Pane.vue'
 
-export { Orientation } from './sash'
+export { Orientation, SashState } from './sash'
 
 // Enums and Constants
 export { LayoutPriority } from './split-view'
-export type { Sizing } from './split-view'
+export type { AnimationEasing, AnimationOptions, BeforeResizeEvent, BeforeResizeHandler, OverflowPolicy, SashChangeReason, SashDragEndEvent, SashItemOptions, SerializedSplitView, SerializedView, Sizing } from './split-view'
 export { SplitView } from './split-view'
+export { allotmentInjectionKey, useAllotment } from './use-allotment'
+export type { AllotmentContext } from './use-allotment'
+export { paneInjectionKey, usePane } from './use-pane'
+export type { PaneContext } from './use-pane'
+
 // Utilities
 export { setSashSize } from './utils'
@@ -0,0 +1,95 @@
+import type { SerializedSplitView } from '../split-view'
+
+/** A layout as written to a {@link StorageAdapter}. */
+export interface PersistedLayout {
+  /** The layout version the layout was saved with. */
+  version: number
+  layout: SerializedSplitView
+}
+
+/**
+ * Reads and writes persisted layouts. Implement this interface to store
+ * layouts in a custom back end. Either method may be asynchronous.
+ */
+export interface StorageAdapter {
+  load: (key: string) => PersistedLayout | undefined | Promise<PersistedLayout | undefined>
+  save: (key: string, layout: PersistedLayout) => void | Promise<void>
+}
+
+function parseLayout(value: string | null | undefined): PersistedLayout | undefined {
+  if (!value) {
+    return undefined
+  }
+
+  try {
+    const layout = JSON.parse(value)
+
+    return typeof layout?.version === 'number' && Array.isArray(layout.layout?.views)
+      ? layout
+      : undefined
+  }
+  catch {
+    return undefined
+  }
+}
+
+/**
+ * Stores layouts in a Web Storage object. The storage is looked up lazily so
+ * the adapter can be created where Web Storage is unavailable, e.g. during SSR.
+ */
+export class WebStorageAdapter implements StorageAdapter {
+  private getStorage: () => Storage | undefined
+
+  constructor(getStorage: () => Storage | undefined) {
+    this.getStorage = getStorage
+  }
+
+  public load(key: string): PersistedLayout | undefined {
+    try {
+      return parseLayout(this.getStorage()?.getItem(key))
+    }
+    catch {
+      return undefined
+    }
+  }
+
+  public save(key: string, layout: PersistedLayout): void {
+    try {
+      this.getStorage()?.setItem(key, JSON.stringify(layout))
+    }
+    catch {
+      // Storage may be full or disabled, in which case the layout is not saved
+    }
+  }
+}
+
+/** Stores layouts in `localStorage`. */
+export class LocalStorageAdapter extends WebStorageAdapter {
+  constructor() {
+    super(() => globalThis.localStorage)
+  }
+}
+
+/** Stores layouts in `sessionStorage`. */
+export class SessionStorageAdapter extends WebStorageAdapter {
+  constructor() {
+    super(() => globalThis.sessionStorage)
+  }
+}
+
+/** Stores layouts in memory, e.g. for tests. */
+export class MemoryStorageAdapter implements StorageAdapter {
+  private items = new Map<string, string>()
+
+  public load(key: string): PersistedLayout | undefined {
+    return parseLayout(this.items.get(key))
+  }
+
+  public save(key: string, layout: PersistedLayout): void {
+    this.items.set(key, JSON.stringify(layout))
+  }
+
+  public clear(): void {
+    this.items.clear()
+  }
+}
@@ -0,0 +1,275 @@
+import type { Disposable } from '../helpers/disposable'
+import styles from './pane-drag.module.css'
+
+/** Where a dragged pane is dropped, relative to the pane under the pointer. */
+export type DropPosition = 'left' | 'right' | 'top' | 'bottom' | 'center'
+
+export interface PaneDragOptions {
+  /** A selector matching the element within a pane which starts a drag. */
+  readonly handle: string
+
+  /** The drop positions to offer on each pane. */
+  readonly positions: DropPosition[]
+
+  /** The panes which can be dragged and dropped onto, by key. */
+  getPanes: () => Iterable<[string, HTMLElement]>
+
+  /** Whether dropping `key` onto `targetKey` keeps every pane within its constraints. */
+  canDrop: (key: string, targetKey: string, position: DropPosition) => boolean
+
+  /**
+   * The area, in client coordinates, the dragged pane would occupy after the drop.
+   * Defaults to the half of the target on the side of the drop, or all of it for the centre.
+   */
+  getPreviewRect?: (key: string, targetKey: string, position: DropPosition) => DOMRect | undefined
+
+  onDrop: (key: string, targetKey: string, position: DropPosition) => void
+}
+
+interface DropTarget {
+  key: string
+  position: DropPosition
+  allowed: boolean
+}
+
+/** The fraction of a pane, from each edge, which drops onto that edge. */
+const EDGE_RATIO = 0.25
+
+/** The distance, in pixels, the pointer has to move before a drag starts. */
+const DRAG_THRESHOLD = 4
+
+function getDropPosition(
+  rect: DOMRect,
+  x: number,
+  y: number,
+  positions: DropPosition[],
+): DropPosition | undefined {
+  const distances: [DropPosition, number][] = [
+    ['left', (x - rect.left) / rect.width],
+    ['right', (rect.right - x) / rect.width],
+    ['top', (y - rect.top) / rect.height],
+    ['bottom', (rect.bottom - y) / rect.height],
+  ]
+
+  const edges = distances
+    .filter(([position]) => positions.includes(position))
+    .sort((a, b) => a[1] - b[1])
+
+  if (edges.length > 0 && (edges[0][1] < EDGE_RATIO || !positions.includes('center'))) {
+    return edges[0][0]
+  }
+
+  return positions.includes('center') ? 'center' : undefined
+}
+
+/** The area of the target pane a dragged pane would occupy after the drop. */
+function getPreviewRect(rect: DOMRect, position: DropPosition): DOMRect {
+  switch (position) {
+    case 'left': {
+      return new DOMRect(rect.left, rect.top, rect.width / 2, rect.height)
+    }
+    case 'right': {
+      return new DOMRect(rect.left + rect.width / 2, rect.top, rect.width / 2, rect.height)
+    }
+    case 'top': {
+      return new DOMRect(rect.left, rect.top, rect.width, rect.height / 2)
+    }
+    case 'bottom': {
+      return new DOMRect(rect.left, rect.top + rect.height / 2, rect.width, rect.height / 2)
+    }
+    default: {
+      return rect
+    }
+  }
+}
+
+/**
+ * Lets the panes within an element be dragged by a handle and dropped onto
+ * each other. While dragging, an overlay previews the area the pane would
+ * occupy, and drops refused by {@link PaneDragOptions.canDrop} are not shown.
+ */
+export class PaneDrag implements Disposable {
+  private el: HTMLElement
+  private options: PaneDragOptions
+  private overlay: HTMLElement | undefined
+
+  /** Abandons the drag in progress, if any, without dropping the pane. */
+  private dragCancel: (() => void) | undefined
+
+  constructor(el: HTMLElement, options: PaneDragOptions) {
+    this.el = el
+    this.options = options
+
+    this.el.addEventListener('pointerdown', this.onPointerDown)
+  }
+
+  private getPaneKey(element: Element): string | undefined {
+    // Only handles within our own panes, not those of nested split views
+    const paneElement = element.closest('.split-view-view')
+
+    for (const [key, pane] of this.options.getPanes()) {
+      if (pane === paneElement) {
+        return key
+      }
+    }
+
+    return undefined
+  }
+
+  private getPane(key: string): HTMLElement | undefined {
+    for (const [paneKey, pane] of this.options.getPanes()) {
+      if (paneKey === key) {
+        return pane
+      }
+    }
+
+    return undefined
+  }
+
+  private getDropTarget(key: string, x: number, y: number): DropTarget | undefined {
+    for (const [targetKey, pane] of this.options.getPanes()) {
+      const rect = pane.getBoundingClientRect()
+
+      if (
+        targetKey === key
+        || rect.width === 0 || rect.height === 0
+        || x < rect.left || x > rect.right || y < rect.top || y > rect.bottom
+      ) {
+        continue
+      }
+
+      const position = getDropPosition(rect, x, y, this.options.positions)
+
+      if (!position) {
+        return undefined
+      }
+
+      return {
+        key: targetKey,
+        position,
+        allowed: this.options.canDrop(key, targetKey, position),
+      }
+    }
+
+    return undefined
+  }
+
+  private showPreview(key: string, target: DropTarget | undefined): void {
+    this.el.classList.toggle(styles.refused, target?.allowed === false)
+
+    if (!target?.allowed) {
+      this.overlay?.remove()
+      this.overlay = undefined
+      return
+    }
+
+    const pane = this.getPane(target.key)
+
+    if (!pane) {
+      return
+    }
+
+    if (!this.overlay) {
+      this.overlay = document.createElement('div')
+      this.overlay.classList.add('pane-drop-overlay', styles.overlay)
+      this.el.append(this.overlay)
+    }
+
+    const rect = this.options.getPreviewRect?.(key, target.key, target.position)
+      ?? getPreviewRect(pane.getBoundingClientRect(), target.position)
+
+    this.overlay.dataset.position = target.position
+    this.overlay.style.left = `${rect.left}px`
+    this.overlay.style.top = `${rect.top}px`
+    this.overlay.style.width = `${rect.width}px`
+    this.overlay.style.height = `${rect.height}px`
+  }
+
+  private onPointerDown = (event: PointerEvent): void => {
+    if (event.button !== 0 || !(event.target instanceof Element)) {
+      return
+    }
+
+    const handle = event.target.closest(this.options.handle)
+
+    if (!handle || !this.el.contains(handle)) {
+      return
+    }
+
+    const key = this.getPaneKey(handle)
+
+    if (key === undefined) {
+      return
+    }
+
+    const source = this.getPane(key)!
+    const { pointerId } = event
+    const startX = event.clientX
+    const startY = event.clientY
+    let dragging = false
+    let target: DropTarget | undefined
+
+    // Aborting removes every listener of this drag
+    const listeners = new AbortController()
+    const { signal } = listeners
+
+    const cleanup = (): void => {
+      listeners.abort()
+      this.dragCancel = undefined
+
+      this.el.classList.remove('pane-dragging', styles.dragging, styles.refused)
+      source.classList.remove('pane-drag-source', styles.source)
+      this.showPreview(key, undefined)
+
+      // Listeners are removed first, so releasing capture is not taken as a cancel
+      if (handle.hasPointerCapture?.(pointerId)) {
+        handle.releasePointerCapture(pointerId)
+      }
+    }
+
+    const onPointerMove = (event: PointerEvent) => {
+      if (
+        !dragging
+        && Math.abs(event.clientX - startX) < DRAG_THRESHOLD
+        && Math.abs(event.clientY - startY) < DRAG_THRESHOLD
+      ) {
+        return
+      }
+
+      event.preventDefault()
+
+      if (!dragging) {
+        dragging = true
+        this.el.classList.add('pane-dragging', styles.dragging)
+        source.classList.add('pane-drag-source', styles.source)
+
+        // Captured only once dragging, so clicks within the handle still work
+        handle.setPointerCapture?.(pointerId)
+        handle.addEventListener('lostpointercapture', cleanup, { signal })
+      }
+
+      target = this.getDropTarget(key, event.clientX, event.clientY)
+      this.showPreview(key, target)
+    }
+
+    const onPointerUp = (): void => {
+      cleanup()
+
+      if (dragging && target?.allowed) {
+        this.options.onDrop(key, target.key, target.position)
+      }
+    }
+
+    this.dragCancel = cleanup
+
+    globalThis.addEventListener('pointermove', onPointerMove, { signal })
+    globalThis.addEventListener('pointerup', onPointerUp, { signal })
+    globalThis.addEventListener('pointercancel', cleanup, { signal })
+  }
+
+  public dispose(): void {
+    this.dragCancel?.()
+    this.el.removeEventListener('pointerdown', this.onPointerDown)
+    this.overlay?.remove()
+  }
+}
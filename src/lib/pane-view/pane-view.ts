@@ -43,11 +43,15 @@ export class NullLayout implements Layout {
 
 export interface PaneViewOptions {
   element: HTMLElement
+  key?: string
   minimumSize?: number
   maximumSize?: number
   priority?: LayoutPriorityType
   preferredSize?: number | string
   snap?: boolean
+  collapsedSize?: number
+  snapPoints?: (number | string)[]
+  snapThreshold?: number
 }
 
 export class PaneView implements View {
@@ -55,11 +59,42 @@ export class PaneView implements View {
   public maximumSize: number = Number.POSITIVE_INFINITY
 
   readonly element: HTMLElement
+  readonly key?: string
   readonly priority?: LayoutPriorityType | undefined
   readonly snap: boolean
+  public collapsedSize: number
+  public snapThreshold?: number
+
+  /** Called with the size and offset of the pane whenever the split view lays it out. */
+  public onDidLayout: ((size: number, offset: number) => void) | undefined
+
+  /** Called whenever the split view shows or hides the pane. */
+  public onDidChangeVisibility: ((visible: boolean) => void) | undefined
 
   private layoutService: LayoutService
   private layoutStrategy: Layout
+  private _snapPoints: (number | string)[] = []
+
+  get snapPoints(): number[] {
+    return this._snapPoints.map((point) => {
+      if (typeof point === 'number') {
+        return point
+      }
+
+      const trimmedPoint = point.trim()
+
+      if (endsWith(trimmedPoint, '%')) {
+        return (Number(trimmedPoint.slice(0, -1)) / 100) * this.layoutService.getSize()
+      }
+
+      return Number.parseFloat(trimmedPoint)
+    }).filter(point => Number.isFinite(point))
+  }
+
+  /** Sizes a dragged sash sticks to, in pixels or as strings ending in "px" or "%". */
+  set snapPoints(snapPoints: (number | string)[] | undefined) {
+    this._snapPoints = snapPoints ?? []
+  }
 
   get preferredSize(): number | undefined {
     return this.layoutStrategy.getPreferredSize()
@@ -102,12 +137,16 @@ export class PaneView implements View {
   constructor(layoutService: LayoutService, options: PaneViewOptions) {
     this.layoutService = layoutService
     this.element = options.element
+    this.key = options.key
 
     // 如果启用了 snap，最小尺寸应该是 0
     this.snap = typeof options.snap === 'boolean' ? options.snap : false
 
+    this.collapsedSize = options.collapsedSize ?? 0
+
+    // A snapped pane cannot shrink below the size it collapses to
     this.minimumSize = this.snap
-      ? 0
+      ? this.collapsedSize
       : (typeof options.minimumSize === 'number' ? options.minimumSize : 30)
 
     this.maximumSize
@@ -148,7 +187,15 @@ export class PaneView implements View {
     }
 
     this.priority = options.priority ?? LayoutPriority.Normal
+    this.snapPoints = options.snapPoints
+    this.snapThreshold = options.snapThreshold
   }
 
-  layout(_size: number): void {}
+  layout(size: number, offset: number): void {
+    this.onDidLayout?.(size, offset)
+  }
+
+  setVisible(visible: boolean): void {
+    this.onDidChangeVisibility?.(visible)
+  }
 }
@@ -2,7 +2,7 @@ import type { Disposable } from '../helpers/disposable'
 import { debounce } from 'es-toolkit'
 
 import EventEmitter from 'eventemitter3'
-import { isIOS, isMacintosh } from '../helpers/platform'
+import { isMacintosh, prefersCoarsePointer } from '../helpers/platform'
 import styles from './sash.module.css'
 
 export interface SashOptions {
@@ -14,13 +14,41 @@ export interface SashOptions {
 
   /** Skip initial layout call in constructor */
   readonly skipInitialLayout?: boolean
+
+  /** The distance, in pixels, an arrow key moves the sash. */
+  readonly keyboardStep?: number
+
+  /** The distance, in pixels, Shift + an arrow key moves the sash. */
+  readonly keyboardLargeStep?: number
+
+  /** The delay, in milliseconds, before a hovered sash is highlighted. */
+  readonly hoverDelay?: number
+
+  /** Show a button which collapses or restores a view next to the sash, once given a direction. */
+  readonly collapseButton?: boolean
+
+  /** The accessible label of the collapse button when it collapses a view. Defaults to "Collapse". */
+  readonly collapseLabel?: string
+
+  /** The accessible label of the collapse button when it restores a view. Defaults to "Expand". */
+  readonly expandLabel?: string
 }
 
+/**
+ * Which way the collapse button of a sash points: towards the view it
+ * collapses, or away from the view it restores.
+ */
+export type SashCollapseDirection = 'before' | 'after'
+
 export interface SashEvent {
   startX: number
   currentX: number
   startY: number
   currentY: number
+  /** Whether Alt (Option on macOS) was held when the drag started. */
+  altKey: boolean
+  /** Whether Shift was held when the drag started. */
+  shiftKey: boolean
 }
 
 export enum Orientation {
@@ -52,7 +80,7 @@ export enum SashState {
   Enabled,
 }
 
-let globalSize = isIOS ? 20 : 8
+let globalSize = 8
 
 const onDidChangeGlobalSize = new EventEmitter()
 
@@ -61,6 +89,57 @@ export function setGlobalSashSize(size: number): void {
   onDidChangeGlobalSize.emit('onDidChangeGlobalSize', size)
 }
 
+// Whether the last pointer used was a finger, which needs larger sashes
+let coarsePointer: boolean | undefined
+
+const onDidChangePointerType = new EventEmitter()
+
+function setCoarsePointer(coarse: boolean): void {
+  if (coarse !== coarsePointer) {
+    coarsePointer = coarse
+    onDidChangePointerType.emit('onDidChangePointerType', coarse)
+  }
+}
+
+/**
+ * Start following the pointer in use: the primary pointer until another is
+ * used, then whichever pointer was used last.
+ */
+function trackPointerType(): boolean {
+  if (coarsePointer === undefined) {
+    coarsePointer = prefersCoarsePointer()
+
+    if (typeof document === 'object') {
+      const onPointer = (event: PointerEvent): void => {
+        if (event.pointerType) {
+          setCoarsePointer(event.pointerType === 'touch')
+        }
+      }
+
+      document.addEventListener('pointerdown', onPointer, { capture: true })
+      document.addEventListener('pointermove', onPointer, { capture: true, passive: true })
+    }
+
+    if (typeof matchMedia === 'function') {
+      matchMedia('(pointer: coarse)').addEventListener?.('change', event => setCoarsePointer(event.matches))
+    }
+  }
+
+  return coarsePointer
+}
+
+const DEFAULT_KEYBOARD_STEP = 10
+const DEFAULT_KEYBOARD_LARGE_STEP = 50
+const DEFAULT_HOVER_DELAY = 300
+const DEFAULT_COLLAPSE_LABEL = 'Collapse'
+const DEFAULT_EXPAND_LABEL = 'Expand'
+
+/** The distance, in pixels, a touch moves before it drags the sash, so taps do not resize. */
+const TOUCH_DRAG_THRESHOLD = 6
+
+/** The time, in milliseconds, a touch rests on the sash before it is highlighted. */
+const LONG_PRESS_DELAY = 500
+
 export interface SashLayoutProvider {}
 
 /** A vertical sash layout provider provides position and height for a sash. */
@@ -87,15 +166,114 @@ export class Sash extends EventEmitter implements Disposable {
   private el: HTMLElement
   private layoutProvider: SashLayoutProvider
   private orientation!: Orientation
-  private size: number
-  private hoverDelay = 300
-  private hoverDelayerFunc = (el: HTMLElement) => el.classList.add('sash-hover', styles.hover)
-  private hoverDelayer = debounce(
-    this.hoverDelayerFunc,
-    this.hoverDelay,
-  )
+  private _size: number
+  // The size set for this sash, `undefined` to follow the global size
+  private fixedSize: number | undefined
+  private keyboardStep: number
+  private keyboardLargeStep: number
+  private _hoverDelay = DEFAULT_HOVER_DELAY
+  private hoverDelayer = this.createHoverDelayer()
 
   private _state: SashState = SashState.Enabled
+
+  /** Abandons the drag in progress, if any, emitting `cancel` once it has started. */
+  private dragCancel: (() => void) | undefined
+
+  private collapseButton: HTMLButtonElement | undefined
+  // Whether the collapse button restores a view rather than collapsing it
+  private collapseButtonRestores = false
+  private _collapseLabel = DEFAULT_COLLAPSE_LABEL
+  private _expandLabel = DEFAULT_EXPAND_LABEL
+
+  /** The element of the sash, for rendering custom content within it. */
+  get element(): HTMLElement {
+    return this.el
+  }
+
+  /** The width or height of a vertical or horizontal sash, respectively. */
+  get size(): number {
+    return this._size
+  }
+
+  /** Set the size of this sash, or `undefined` to follow the global size. */
+  set size(size: number | undefined) {
+    this.fixedSize = size
+    this._size = size ?? globalSize
+
+    const dimension = this.orientation === Orientation.Vertical ? 'width' : 'height'
+
+    this.el.style[dimension] = size === undefined ? '' : `${size}px`
+
+    // The handles within the sash are sized from the variable
+    if (size === undefined) {
+      this.el.style.removeProperty('--sash-size')
+    }
+    else {
+      this.el.style.setProperty('--sash-size', `${size}px`)
+    }
+
+    this.layout()
+  }
+
+  /** The delay, in milliseconds, before a hovered sash is highlighted. */
+  get hoverDelay(): number {
+    return this._hoverDelay
+  }
+
+  /** Set the hover delay of this sash, or `undefined` for the default. */
+  set hoverDelay(hoverDelay: number | undefined) {
+    hoverDelay ??= DEFAULT_HOVER_DELAY
+
+    if (this._hoverDelay === hoverDelay) {
+      return
+    }
+
+    this.hoverDelayer.cancel()
+    this._hoverDelay = hoverDelay
+    this.hoverDelayer = this.createHoverDelayer()
+  }
+
+  /** The accessible label of the collapse button when it collapses a view. */
+  get collapseLabel(): string {
+    return this._collapseLabel
+  }
+
+  /** Set the label of the collapse button when it collapses a view, or `undefined` for the default. */
+  set collapseLabel(collapseLabel: string | undefined) {
+    this._collapseLabel = collapseLabel ?? DEFAULT_COLLAPSE_LABEL
+    this.updateCollapseLabel()
+  }
+
+  /** The accessible label of the collapse button when it restores a view. */
+  get expandLabel(): string {
+    return this._expandLabel
+  }
+
+  /** Set the label of the collapse button when it restores a view, or `undefined` for the default. */
+  set expandLabel(expandLabel: string | undefined) {
+    this._expandLabel = expandLabel ?? DEFAULT_EXPAND_LABEL
+    this.updateCollapseLabel()
+  }
+
+  /** Whether the sash shows a button which collapses or restores a view next to it. */
+  get hasCollapseButton(): boolean {
+    return this.collapseButton !== undefined
+  }
+
+  set hasCollapseButton(hasCollapseButton: boolean) {
+    if (hasCollapseButton === this.hasCollapseButton) {
+      return
+    }
+
+    if (hasCollapseButton) {
+      this.collapseButton = this.createCollapseButton()
+    }
+    else {
+      this.collapseButton?.remove()
+      this.collapseButton = undefined
+    }
+  }
+
   get state(): SashState {
     return this._state
   }
@@ -116,6 +294,9 @@ export class Sash extends EventEmitter implements Disposable {
     this.el.classList.toggle(styles.maximum, state === SashState.Maximum)
     this.el.classList.toggle('sash-maximum', state === SashState.Maximum)
 
+    this.el.tabIndex = state === SashState.Disabled ? -1 : 0
+    this.el.setAttribute('aria-disabled', String(state === SashState.Disabled))
+
     this._state = state
 
     this.emit('enablementChange', state)
@@ -156,6 +337,8 @@ export class Sash extends EventEmitter implements Disposable {
     this.el = document.createElement('div')
     this.el.classList.add('sash', styles.sash)
     this.el.dataset.testid = 'sash'
+    this.el.tabIndex = 0
+    this.el.setAttribute('role', 'separator')
     container.append(this.el)
 
     if (isMacintosh) {
@@ -164,28 +347,37 @@ export class Sash extends EventEmitter implements Disposable {
 
     this.el.addEventListener('pointerdown', this.onPointerStart)
     this.el.addEventListener('dblclick', this.onPointerDoublePress)
-    this.el.addEventListener('mouseenter', this.onMouseEnter)
-    this.el.addEventListener('mouseleave', this.onMouseLeave)
+    this.el.addEventListener('pointerenter', this.onPointerEnter)
+    this.el.addEventListener('pointerleave', this.onPointerLeave)
+    this.el.addEventListener('keydown', this.onKeyDown)
 
-    if (typeof options.size === 'number') {
-      this.size = options.size
+    this.onPointerTypeChange(trackPointerType())
+    onDidChangePointerType.on('onDidChangePointerType', this.onPointerTypeChange)
+
+    this.hasCollapseButton = !!options.collapseButton
+    this.collapseLabel = options.collapseLabel
+    this.expandLabel = options.expandLabel
+
+    this.keyboardStep = options.keyboardStep ?? DEFAULT_KEYBOARD_STEP
+    this.keyboardLargeStep = options.keyboardLargeStep ?? DEFAULT_KEYBOARD_LARGE_STEP
+    this.hoverDelay = options.hoverDelay
+
+    this.fixedSize = options.size
+    this._size = options.size ?? globalSize
 
+    if (typeof options.size === 'number') {
       if (options.orientation === Orientation.Vertical) {
         this.el.style.width = `${this.size}px`
       }
       else {
         this.el.style.height = `${this.size}px`
       }
-    }
-    else {
-      this.size = globalSize
 
-      onDidChangeGlobalSize.on('onDidChangeGlobalSize', (size) => {
-        this.size = size
-        this.layout()
-      })
+      this.el.style.setProperty('--sash-size', `${this.size}px`)
     }
 
+    onDidChangeGlobalSize.on('onDidChangeGlobalSize', this.onGlobalSizeChange)
+
     this.layoutProvider = layoutProvider
 
     this.orientation = options.orientation ?? Orientation.Vertical
@@ -199,6 +391,11 @@ export class Sash extends EventEmitter implements Disposable {
       this.el.classList.add('sash-vertical', styles.vertical)
     }
 
+    this.el.setAttribute(
+      'aria-orientation',
+      this.orientation === Orientation.Vertical ? 'vertical' : 'horizontal',
+    )
+
     if (!options.skipInitialLayout) {
       this.layout()
     }
@@ -207,67 +404,272 @@ export class Sash extends EventEmitter implements Disposable {
   private onPointerStart = (event: PointerEvent) => {
     const startX = event.pageX
     const startY = event.pageY
+    const pointerId = event.pointerId
+    // Modifiers pick the drag mode for the whole drag
+    const { altKey, shiftKey } = event
 
-    const startEvent: SashEvent = {
-      startX,
-      currentX: startX,
-      startY,
-      currentY: startY,
-    }
+    const touch = event.pointerType === 'touch'
+
+    // A touch only drags once it moves past a threshold, and highlights the
+    // sash when held still
+    let started = false
+    const longPress = touch ? setTimeout(() => this.setHovered(true), LONG_PRESS_DELAY) : undefined
+
+    const start = (): void => {
+      started = true
+      clearTimeout(longPress)
+
+      const startEvent: SashEvent = {
+        startX,
+        currentX: startX,
+        startY,
+        currentY: startY,
+        altKey,
+        shiftKey,
+      }
+
+      this.el.classList.add('sash-active', styles.active)
 
-    this.el.classList.add('sash-active', styles.active)
+      this.emit('start', startEvent)
+    }
 
-    this.emit('start', startEvent)
+    if (!touch) {
+      start()
+    }
 
-    this.el.setPointerCapture(event.pointerId)
+    this.el.setPointerCapture(pointerId)
 
     const onPointerMove = (event: PointerEvent) => {
       event.preventDefault()
 
+      if (!started) {
+        if (Math.hypot(event.pageX - startX, event.pageY - startY) < TOUCH_DRAG_THRESHOLD) {
+          return
+        }
+
+        start()
+      }
+
       const moveEvent: SashEvent = {
         startX,
         currentX: event.pageX,
         startY,
         currentY: event.pageY,
+        altKey,
+        shiftKey,
       }
 
       this.emit('change', moveEvent)
     }
 
-    const onPointerUp = (event: PointerEvent): void => {
-      event.preventDefault()
+    // Aborting removes every listener of this drag
+    const listeners = new AbortController()
+    const { signal } = listeners
+
+    const cleanup = (): void => {
+      listeners.abort()
+      clearTimeout(longPress)
 
       this.el.classList.remove('sash-active', styles.active)
       this.hoverDelayer.cancel()
-      this.emit('end')
 
-      this.el.releasePointerCapture(event.pointerId)
+      // Touch has no pointer to leave the sash, so its highlight ends with the touch
+      if (touch) {
+        this.setHovered(false)
+      }
+
+      this.dragCancel = undefined
 
-      globalThis.removeEventListener('pointermove', onPointerMove)
-      globalThis.removeEventListener('pointerup', onPointerUp)
+      // Listeners are removed first, so releasing capture is not taken as a cancel
+      if (this.el.hasPointerCapture?.(pointerId)) {
+        this.el.releasePointerCapture(pointerId)
+      }
+    }
+
+    const onPointerUp = (event: PointerEvent): void => {
+      event.preventDefault()
+      cleanup()
+
+      if (started) {
+        this.emit('end')
+      }
+    }
+
+    // The drag is abandoned when the pointer is lost, such as when it is
+    // released over an iframe or the window loses focus
+    const onCancel = (): void => {
+      cleanup()
+
+      if (started) {
+        this.emit('cancel')
+      }
     }
 
-    globalThis.addEventListener('pointermove', onPointerMove)
-    globalThis.addEventListener('pointerup', onPointerUp)
+    const onKeyDown = (event: KeyboardEvent): void => {
+      if (event.key === 'Escape') {
+        event.preventDefault()
+        event.stopPropagation()
+        onCancel()
+      }
+    }
+
+    this.dragCancel = onCancel
+
+    globalThis.addEventListener('pointermove', onPointerMove, { signal })
+    globalThis.addEventListener('pointerup', onPointerUp, { signal })
+    globalThis.addEventListener('keydown', onKeyDown, { capture: true, signal })
+    globalThis.addEventListener('blur', onCancel, { signal })
+    this.el.addEventListener('pointercancel', onCancel, { signal })
+    this.el.addEventListener('lostpointercapture', onCancel, { signal })
   }
 
   private onPointerDoublePress = (): void => {
     this.emit('reset')
   }
 
-  private onMouseEnter = (): void => {
+  /**
+   * Arrow keys along the sash axis emit `keyboardchange` with the distance to
+   * move, Home and End emit an infinite distance to move as far as possible,
+   * and Enter emits `keyboardtoggle`.
+   */
+  private onKeyDown = (event: KeyboardEvent): void => {
+    if (this.state === SashState.Disabled) {
+      return
+    }
+
+    const [decreaseKey, increaseKey]
+      = this.orientation === Orientation.Vertical
+        ? ['ArrowLeft', 'ArrowRight']
+        : ['ArrowUp', 'ArrowDown']
+
+    const step = event.shiftKey ? this.keyboardLargeStep : this.keyboardStep
+
+    switch (event.key) {
+      case decreaseKey: {
+        this.emit('keyboardchange', -step)
+        break
+      }
+      case increaseKey: {
+        this.emit('keyboardchange', step)
+        break
+      }
+      case 'Home': {
+        this.emit('keyboardchange', Number.NEGATIVE_INFINITY)
+        break
+      }
+      case 'End': {
+        this.emit('keyboardchange', Number.POSITIVE_INFINITY)
+        break
+      }
+      case 'Enter': {
+        this.emit('keyboardtoggle')
+        break
+      }
+      default: {
+        return
+      }
+    }
+
+    event.preventDefault()
+  }
+
+  private createCollapseButton(): HTMLButtonElement {
+    const button = document.createElement('button')
+
+    button.type = 'button'
+    button.hidden = true
+    button.classList.add('sash-collapse-button', styles.collapseButton)
+
+    // The button is not part of the sash, so it neither drags nor resets it
+    button.addEventListener('pointerdown', event => event.stopPropagation())
+    button.addEventListener('dblclick', event => event.stopPropagation())
+    button.addEventListener('keydown', event => event.stopPropagation())
+    button.addEventListener('click', () => this.emit('collapsetoggle'))
+
+    this.el.append(button)
+
+    return button
+  }
+
+  /**
+   * Point the collapse button towards the view it collapses, or away from the
+   * view it restores, or hide it when there is no such view.
+   *
+   * @param direction Which way the button points.
+   * @param restores Whether clicking the button restores a collapsed view.
+   */
+  public setCollapseDirection(direction: SashCollapseDirection | undefined, restores = false): void {
+    const button = this.collapseButton
+
+    if (!button) {
+      return
+    }
+
+    button.hidden = direction === undefined
+    button.classList.toggle('sash-collapse-before', direction === 'before')
+    button.classList.toggle(styles.before, direction === 'before')
+    button.classList.toggle('sash-collapse-after', direction === 'after')
+    button.classList.toggle(styles.after, direction === 'after')
+    this.collapseButtonRestores = restores
+    this.updateCollapseLabel()
+  }
+
+  private updateCollapseLabel(): void {
+    this.collapseButton?.setAttribute(
+      'aria-label',
+      this.collapseButtonRestores ? this._expandLabel : this._collapseLabel,
+    )
+  }
+
+  private onGlobalSizeChange = (size: number): void => {
+    if (this.fixedSize === undefined) {
+      this._size = size
+      this.layout()
+    }
+  }
+
+  private createHoverDelayer() {
+    return debounce(() => this.setHovered(true), this._hoverDelay)
+  }
+
+  /** Highlight the sash, emitting `hoverchange` when that changes. */
+  private setHovered(hovered: boolean): void {
+    if (this.el.classList.contains('sash-hover') === hovered) {
+      return
+    }
+
+    this.el.classList.toggle('sash-hover', hovered)
+    this.el.classList.toggle(styles.hover, hovered)
+    this.emit('hoverchange', hovered)
+  }
+
+  private onPointerTypeChange = (coarse: boolean): void => {
+    this.el.classList.toggle('sash-coarse', coarse)
+    this.el.classList.toggle(styles.coarse, coarse)
+  }
+
+  // Touch highlights the sash with a long press instead
+  private onPointerEnter = (event: PointerEvent): void => {
+    if (event.pointerType === 'touch') {
+      return
+    }
+
     if (this.el.classList.contains(styles.active)) {
       this.hoverDelayer.cancel()
-      this.el.classList.add('sash-hover', styles.hover)
+      this.setHovered(true)
     }
     else {
-      this.hoverDelayer(this.el)
+      this.hoverDelayer()
     }
   }
 
-  private onMouseLeave = (): void => {
+  private onPointerLeave = (event: PointerEvent): void => {
+    if (event.pointerType === 'touch') {
+      return
+    }
+
     this.hoverDelayer.cancel()
-    this.el.classList.remove('sash-hover', styles.hover)
+    this.setHovered(false)
   }
 
   /**
@@ -310,11 +712,36 @@ export class Sash extends EventEmitter implements Disposable {
     }
   }
 
+  /**
+   * Update the ARIA value attributes of the sash.
+   *
+   * @param value The current position of the sash, in pixels.
+   * @param min The smallest position the sash can currently be moved to.
+   * @param max The largest position the sash can currently be moved to.
+   */
+  public setAriaValues(value: number, min: number, max: number): void {
+    this.el.setAttribute('aria-valuenow', String(Math.round(value)))
+    this.el.setAttribute('aria-valuemin', String(Math.round(min)))
+    this.el.setAttribute('aria-valuemax', String(Math.round(max)))
+  }
+
+  /** Abandon the drag in progress, if any, as if Escape was pressed. */
+  public cancelDrag(): void {
+    this.dragCancel?.()
+  }
+
   public dispose(): void {
+    // A sash removed mid-drag cancels it, so whatever the drag set up is undone
+    this.cancelDrag()
+
     this.el.removeEventListener('pointerdown', this.onPointerStart)
     this.el.removeEventListener('dblclick', this.onPointerDoublePress)
-    this.el.removeEventListener('mouseenter', this.onMouseEnter)
-    this.el.removeEventListener('mouseleave', this.onMouseLeave)
+    this.el.removeEventListener('pointerenter', this.onPointerEnter)
+    this.el.removeEventListener('pointerleave', this.onPointerLeave)
+    this.el.removeEventListener('keydown', this.onKeyDown)
+    onDidChangeGlobalSize.off('onDidChangeGlobalSize', this.onGlobalSizeChange)
+    onDidChangePointerType.off('onDidChangePointerType', this.onPointerTypeChange)
+    this.hoverDelayer.cancel()
 
     this.el.remove()
   }
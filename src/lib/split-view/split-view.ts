@@ -1,9 +1,10 @@
 import type { Disposable } from '../helpers/disposable'
-import type { SashEvent as BaseSashEvent } from '../sash'
+import type { SashEvent as BaseSashEvent, SashCollapseDirection } from '../sash'
 import { clamp } from 'es-toolkit'
 import EventEmitter from 'eventemitter3'
 import styles from '../allotment.module.css'
 import { pushToEnd, pushToStart, range } from '../helpers/array'
+import { isMacintosh, prefersReducedMotion } from '../helpers/platform'
 import {
 
   Orientation,
@@ -15,8 +16,40 @@ interface SashEvent {
   readonly sash: Sash
   readonly start: number
   readonly current: number
+  /** Resize the view next to the sash on both sides, keeping it centred. */
+  readonly symmetric?: boolean
+  /** Move only the two views next to the sash. */
+  readonly adjacentOnly?: boolean
 }
 
+/** Describes how a sash drag ended. */
+export interface SashDragEndEvent {
+  /**
+   * Whether the drag was cancelled, with Escape or by losing the pointer.
+   * Cancelled drags restore the sizes from before the drag started.
+   */
+  readonly cancelled: boolean
+}
+
+/** What moved a sash: a drag, the keyboard, a double-click cycling snap points, or its collapse button. */
+export type SashChangeReason = 'drag' | 'keyboard' | 'reset' | 'visibility'
+
+/** The sizes views are about to be resized to, passed to {@link SplitView.beforeResize}. */
+export interface BeforeResizeEvent {
+  /** The sizes the views are about to take, in pixels. */
+  readonly sizes: number[]
+  /** The sizes of the views before the change, in pixels. */
+  readonly previousSizes: number[]
+  /** What is resizing the views. `api` covers the public methods of {@link SplitView}. */
+  readonly reason: SashChangeReason | 'api'
+}
+
+/**
+ * Adjust or veto new sizes before they are laid out. Return sizes to use instead,
+ * `false` to keep the previous sizes, or nothing to accept the sizes.
+ */
+export type BeforeResizeHandler = (event: BeforeResizeEvent) => number[] | false | void
+
 /**
  * When adding or removing views, distribute the delta space among
  * all other views.
@@ -83,6 +116,62 @@ export interface SplitViewDescriptor {
   }[]
 }
 
+/** A serialized {@link View view}, as captured by {@link SplitView.toJSON}. */
+export interface SerializedView {
+  /** The key of the {@link View view}, or its index when it has no key. */
+  key: string
+
+  /** The size of the view as a proportion of the {@link SplitView} size. */
+  proportion: number
+
+  /** The size of the view, in pixels. */
+  size: number
+
+  /** Whether the view is visible. */
+  visible: boolean
+
+  /** The size the view will have when it is made visible again. */
+  cachedVisibleSize?: number
+}
+
+/** A serialized {@link SplitView} layout, as captured by {@link SplitView.toJSON}. */
+export interface SerializedSplitView {
+  /** The layout size of the {@link SplitView} when it was serialized. */
+  size: number
+
+  views: SerializedView[]
+}
+
+/**
+ * The easing curve of an animation. Either the name of a CSS easing keyword,
+ * or a function mapping progress from 0 to 1 onto eased progress.
+ */
+export type AnimationEasing
+  = | 'linear'
+    | 'ease-in'
+    | 'ease-out'
+    | 'ease-in-out'
+    | ((progress: number) => number)
+
+export interface AnimationOptions {
+  /** The duration of the animation, in milliseconds. Defaults to 200. */
+  readonly duration?: number
+
+  /** The easing curve of the animation. Defaults to `ease-out`. */
+  readonly easing?: AnimationEasing
+}
+
+/**
+ * What a {@link SplitView} does when the minimum sizes of its views add up to
+ * more than its size.
+ *
+ * - `hide` hides views, lowest {@link LayoutPriority} first, until the rest fit,
+ *   and shows them again once there is room.
+ * - `scroll` keeps every view at its minimum size and scrolls the split view.
+ * - `shrink` shrinks every view below its minimum size, in proportion.
+ */
+export type OverflowPolicy = 'hide' | 'scroll' | 'shrink'
+
 export interface SplitViewOptions {
   /** Which axis the views align on. */
   readonly orientation?: Orientation
@@ -98,6 +187,45 @@ export interface SplitViewOptions {
 
   /** Override the orthogonal size of sashes. */
   readonly getSashOrthogonalSize?: () => number
+
+  /** The distance, in pixels, an arrow key moves a focused sash. */
+  readonly keyboardStep?: number
+
+  /** The distance, in pixels, Shift + an arrow key moves a focused sash. */
+  readonly keyboardLargeStep?: number
+
+  /**
+   * Animate views to their new sizes when they are shown, hidden or resized
+   * programmatically. Animations are skipped when the user prefers reduced motion.
+   */
+  readonly animate?: AnimationOptions
+
+  /** What to do when the views do not fit at their minimum sizes. Defaults to `shrink`. */
+  readonly overflow?: OverflowPolicy
+
+  /** Round the position of a dragged sash to a multiple of this many pixels. */
+  readonly snapGrid?: number
+
+  /** Adjust or veto new sizes from drags, the keyboard and the public methods before they are laid out. */
+  readonly beforeResize?: BeforeResizeHandler
+
+  /**
+   * Whether a moved sash pushes the sashes beyond it once the views next to it
+   * reach their size limits. Defaults to `true`.
+   */
+  readonly cascade?: boolean
+
+  /** Show a button on sashes next to a {@link View.snap snappable} view which collapses or restores it. */
+  readonly collapseButtons?: boolean
+
+  /** The size of the sashes of this split view. Defaults to the global sash size. */
+  readonly sashSize?: number
+
+  /**
+   * Whether double-clicking a sash resets the views next to it. Defaults to `true`.
+   * `sashdoubleclick` is emitted either way.
+   */
+  readonly resetOnDoubleClick?: boolean
 }
 
 export enum LayoutPriority {
@@ -113,6 +241,12 @@ export interface View {
   /** The DOM element for this view. */
   readonly element: HTMLElement
 
+  /**
+   * A key identifying this view, used to match views when restoring a
+   * {@link SerializedSplitView serialized layout}.
+   */
+  readonly key?: string
+
   /**
    * A minimum size for this view.
    *
@@ -141,6 +275,24 @@ export interface View {
    */
   readonly snap?: boolean
 
+  /**
+   * The size the view keeps when it is snapped or hidden. A view with a
+   * collapsed size stays on screen, so a header within it can still be used.
+   *
+   * @remarks Defaults to `0`, which hides the view.
+   */
+  readonly collapsedSize?: number
+
+  /** Sizes, in pixels, a dragged sash sticks to and a double-clicked sash cycles through. */
+  readonly snapPoints?: number[]
+
+  /**
+   * How close, in pixels, a dragged sash has to come to a snap point to stick to it.
+   *
+   * @remarks Defaults to 10.
+   */
+  readonly snapThreshold?: number
+
   /**
    * This will be called by the {@link SplitView} during layout. A view meant to
    * pass along the layout information down to its descendants.
@@ -162,11 +314,14 @@ export interface View {
 type ViewItemSize = number | { cachedVisibleSize: number }
 
 abstract class ViewItem {
-  protected container: HTMLElement
+  readonly container: HTMLElement
   public view: View
   private _size: number
   private _cachedVisibleSize: number | undefined = undefined
 
+  /** The share of its minimum size the view keeps while the views overflow. */
+  public minimumScale = 1
+
   constructor(container: HTMLElement, view: View, size: ViewItemSize) {
     this.container = container
     this.view = view
@@ -180,8 +335,10 @@ abstract class ViewItem {
       container.classList.add('split-view-view-visible')
     }
     else {
-      this._size = 0
+      this._size = this.collapsedSize
       this._cachedVisibleSize = size.cachedVisibleSize
+      container.classList.toggle('split-view-view-visible', this.collapsed)
+      container.classList.toggle('split-view-view-collapsed', this.collapsed)
     }
   }
 
@@ -205,6 +362,15 @@ abstract class ViewItem {
     return this._cachedVisibleSize === undefined
   }
 
+  get collapsedSize(): number {
+    return this.view.collapsedSize ?? 0
+  }
+
+  /** Whether the view is hidden but stays on screen at its collapsed size. */
+  get collapsed(): boolean {
+    return !this.visible && this.collapsedSize > 0
+  }
+
   setVisible(visible: boolean, size?: number): void {
     if (visible === this.visible) {
       return
@@ -220,36 +386,46 @@ abstract class ViewItem {
     }
     else {
       this._cachedVisibleSize = typeof size === 'number' ? size : this.size
-      this.size = 0
+      this.size = this.collapsedSize
     }
 
-    this.container.classList.toggle('split-view-view-visible', visible)
+    this.container.classList.toggle('split-view-view-visible', visible || this.collapsed)
+    this.container.classList.toggle('split-view-view-collapsed', this.collapsed)
 
-    if (this.view.setVisible) {
+    // Collapsed views never leave the screen
+    if (this.view.setVisible && this.collapsedSize === 0) {
       this.view.setVisible(visible)
     }
   }
 
   get minimumSize(): number {
-    return this.visible ? this.view.minimumSize : 0
+    return (this.visible ? this.view.minimumSize : this.collapsedSize) * this.minimumScale
   }
 
   get maximumSize(): number {
-    return this.visible ? this.view.maximumSize : 0
+    return this.visible ? this.view.maximumSize : this.collapsedSize * this.minimumScale
   }
 
   get cachedVisibleSize(): number | undefined {
     return this._cachedVisibleSize
   }
 
+  /** Remove the positioning left behind by a layout along another axis. */
+  clearLayout(): void {
+    this.container.style.top = ''
+    this.container.style.left = ''
+    this.container.style.width = ''
+    this.container.style.height = ''
+  }
+
   abstract layout(offset: number, layoutContext?: any): void
 }
 
 class VerticalViewItem extends ViewItem {
   layout(offset: number): void {
-    if (!this.visible) {
-      // Set height to 0 for invisible items
-      this.container.style.height = '0px'
+    if (!this.visible && !this.collapsed) {
+      // Invisible items have no size, unless they are animating closed
+      this.container.style.height = `${this.size}px`
       this.container.style.top = `${offset}px`
       this.container.style.left = '0px'
       this.container.style.width = '100%'
@@ -267,9 +443,9 @@ class VerticalViewItem extends ViewItem {
 
 class HorizontalViewItem extends ViewItem {
   layout(offset: number): void {
-    if (!this.visible) {
-      // Set width to 0 for invisible items
-      this.container.style.width = '0px'
+    if (!this.visible && !this.collapsed) {
+      // Invisible items have no size, unless they are animating closed
+      this.container.style.width = `${this.size}px`
       this.container.style.left = `${offset}px`
       this.container.style.top = '0px'
       this.container.style.height = '100%'
@@ -287,6 +463,28 @@ class HorizontalViewItem extends ViewItem {
 
 interface SashItem {
   sash: Sash
+  /** The size set for the sash through {@link SplitView.setSashOptions}. */
+  size?: number
+  /** Whether the sash was disabled through {@link SplitView.setSashOptions}. */
+  disabled?: boolean
+}
+
+/** Options of a single sash, set with {@link SplitView.setSashOptions}. */
+export interface SashItemOptions {
+  /** The width or height of the area which drags the sash, in pixels. Defaults to the sash size of the split view. */
+  readonly size?: number
+
+  /** The delay, in milliseconds, before a hovered sash is highlighted. Defaults to 300. */
+  readonly hoverDelay?: number
+
+  /** Stop the sash from being dragged or moved with the keyboard. */
+  readonly disabled?: boolean
+
+  /** The accessible label of the collapse button when it collapses a view. Defaults to "Collapse". */
+  readonly collapseLabel?: string
+
+  /** The accessible label of the collapse button when it restores a view. Defaults to "Expand". */
+  readonly expandLabel?: string
 }
 
 interface SashDragSnapState {
@@ -300,16 +498,49 @@ interface SashDragState {
   start: number
   current: number
   sizes: number[]
+  /** The cached visible size of each view when the drag started, `undefined` for visible views. */
+  cachedVisibleSizes: (number | undefined)[]
   minDelta: number
   maxDelta: number
   snapBefore?: SashDragSnapState
   snapAfter?: SashDragSnapState
+  symmetric: boolean
+  cascade: boolean
+}
+
+interface SashKeyboardMove {
+  readonly delta: number
+  /** Bounds on the delta, as a drag has. Unbounded moves can push every view. */
+  readonly minDelta?: number
+  readonly maxDelta?: number
+  readonly snapBefore?: SashDragSnapState
+  readonly snapAfter?: SashDragSnapState
+}
+
+interface AnimationState {
+  frame: number
+  /** The sizes the views are currently displayed at. */
+  current: number[]
+  /** Views which are visible at both ends of the animation keep to their size constraints. */
+  constrained: boolean[]
+}
+
+const DEFAULT_ANIMATION_DURATION = 200
+
+const DEFAULT_SNAP_THRESHOLD = 10
+
+const easings: Record<Exclude<AnimationEasing, (progress: number) => number>, (progress: number) => number> = {
+  'linear': t => t,
+  'ease-in': t => t * t * t,
+  'ease-out': t => 1 - (1 - t) ** 3,
+  'ease-in-out': t => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2),
 }
 
 export class SplitView extends EventEmitter implements Disposable {
-  public onDidChange: ((sizes: number[]) => void) | undefined
+  /** Called once sizes settle. The reason is left out when an animation settles. */
+  public onDidChange: ((sizes: number[], reason?: SashChangeReason) => void) | undefined
   public onDidDragStart: ((sizes: number[]) => void) | undefined
-  public onDidDragEnd: ((sizes: number[]) => void) | undefined
+  public onDidDragEnd: ((sizes: number[], event: SashDragEndEvent) => void) | undefined
 
   private _orientation: Orientation
   get orientation(): Orientation {
@@ -317,9 +548,10 @@ export class SplitView extends EventEmitter implements Disposable {
   }
 
   set orientation(orientation: Orientation) {
-    this._orientation = orientation
+    this.setOrientation(orientation)
   }
 
+  private el: HTMLElement
   private sashContainer: HTMLElement
   private size = 0
   private contentSize = 0
@@ -337,7 +569,91 @@ export class SplitView extends EventEmitter implements Disposable {
     this._proportionalLayout = value
   }
 
+  /** Animate programmatic size and visibility changes. */
+  public animate: AnimationOptions | undefined
+
+  /** Round the position of a dragged sash to a multiple of this many pixels. */
+  public snapGrid: number | undefined
+
+  /** Adjust or veto new sizes from drags, the keyboard and the public methods before they are laid out. */
+  public beforeResize: BeforeResizeHandler | undefined
+
+  /** Whether a moved sash pushes the sashes beyond it. Shift-dragging a sash never does. */
+  public cascade: boolean
+
+  /** Whether double-clicking a sash resets the views next to it, rather than only emitting `sashdoubleclick`. */
+  public resetOnDoubleClick: boolean
+
+  private _collapseButtons: boolean
+
+  private _sashSize: number | undefined
+
+  /** The size of the sashes of this split view, `undefined` to follow the global sash size. */
+  get sashSize(): number | undefined {
+    return this._sashSize
+  }
+
+  set sashSize(sashSize: number | undefined) {
+    if (sashSize === this._sashSize) {
+      return
+    }
+
+    this._sashSize = sashSize
+
+    for (const item of this.sashItems) {
+      item.sash.size = item.size ?? sashSize
+    }
+  }
+
+  /** Whether sashes next to a snappable view show a button which collapses or restores it. */
+  get collapseButtons(): boolean {
+    return this._collapseButtons
+  }
+
+  set collapseButtons(collapseButtons: boolean) {
+    if (collapseButtons === this._collapseButtons) {
+      return
+    }
+
+    this._collapseButtons = collapseButtons
+
+    for (const { sash } of this.sashItems) {
+      sash.hasCollapseButton = collapseButtons
+    }
+
+    this.updateSashEnablement()
+  }
+
+  private _overflow: OverflowPolicy
+
+  get overflow(): OverflowPolicy {
+    return this._overflow
+  }
+
+  set overflow(overflow: OverflowPolicy) {
+    if (overflow === this._overflow) {
+      return
+    }
+
+    this._overflow = overflow
+    this.layout()
+  }
+
+  // Views hidden to make room, the most recently hidden last
+  private overflowHiddenViews: View[] = []
+
+  private animation: AnimationState | undefined
+
+  /** Whether views are animating to new sizes. {@link SplitView.onDidChange} is called once they settle. */
+  get isAnimating(): boolean {
+    return this.animation !== undefined
+  }
+
+  private dragOverlay: HTMLElement | undefined
+
   private readonly getSashOrthogonalSize: { (): number } | undefined
+  private readonly keyboardStep: number | undefined
+  private readonly keyboardLargeStep: number | undefined
 
   private _startSnappingEnabled = true
   get startSnappingEnabled(): boolean {
@@ -371,15 +687,25 @@ export class SplitView extends EventEmitter implements Disposable {
   constructor(
     container: HTMLElement,
     options: SplitViewOptions = {},
-    onDidChange?: (sizes: number[]) => void,
+    onDidChange?: (sizes: number[], reason?: SashChangeReason) => void,
     onDidDragStart?: (sizes: number[]) => void,
-    onDidDragEnd?: (sizes: number[]) => void,
+    onDidDragEnd?: (sizes: number[], event: SashDragEndEvent) => void,
   ) {
     super()
 
     this._orientation = options.orientation ?? Orientation.Vertical
     this._proportionalLayout = options.proportionalLayout ?? true
     this.getSashOrthogonalSize = options.getSashOrthogonalSize
+    this.keyboardStep = options.keyboardStep
+    this.keyboardLargeStep = options.keyboardLargeStep
+    this.animate = options.animate
+    this._overflow = options.overflow ?? 'shrink'
+    this.snapGrid = options.snapGrid
+    this.beforeResize = options.beforeResize
+    this.cascade = options.cascade ?? true
+    this.resetOnDoubleClick = options.resetOnDoubleClick ?? true
+    this._collapseButtons = options.collapseButtons ?? false
+    this._sashSize = options.sashSize
 
     if (onDidChange) {
       this.onDidChange = onDidChange
@@ -393,6 +719,7 @@ export class SplitView extends EventEmitter implements Disposable {
       this.onDidDragEnd = onDidDragEnd
     }
 
+    this.el = container
     this.sashContainer = document.createElement('div')
     this.sashContainer.classList.add('sash-container', styles.sashContainer)
     container.prepend(this.sashContainer)
@@ -445,111 +772,24 @@ export class SplitView extends EventEmitter implements Disposable {
     this.viewItems.splice(index, 0, item)
 
     if (this.viewItems.length > 1) {
-      const sash
-        = this.orientation === Orientation.Vertical
-          ? new Sash(
-            this.sashContainer,
-            {
-              getHorizontalSashTop: (s: Sash) => this.getSashPosition(s),
-              getHorizontalSashWidth: this.getSashOrthogonalSize,
-            },
-            { orientation: Orientation.Horizontal },
-          )
-          : new Sash(
-            this.sashContainer,
-            {
-              getVerticalSashLeft: (s: Sash) => this.getSashPosition(s),
-              getVerticalSashHeight: this.getSashOrthogonalSize,
-            },
-            { orientation: Orientation.Vertical },
-          )
-
-      const sashEventMapper
-        = this.orientation === Orientation.Vertical
-          ? (e: BaseSashEvent) => ({
-              sash,
-              start: e.startY,
-              current: e.currentY,
-            })
-          : (e: BaseSashEvent) => ({
-              sash,
-              start: e.startX,
-              current: e.currentX,
-            })
-
-      sash.on('start', (event: BaseSashEvent) => {
-        this.emit('sashDragStart')
-        this.onSashStart(sashEventMapper(event))
-        const sizes = this.viewItems.map(i => i.size)
-        this.onDidDragStart?.(sizes)
-      })
-
-      sash.on('change', (event: BaseSashEvent) =>
-        this.onSashChange(sashEventMapper(event)))
-
-      sash.on('end', () => {
-        this.emit('sashDragEnd')
-        // Find index handling potential Proxy wrapping
-        let index = this.sashItems.findIndex(item => item.sash === sash)
-        if (index === -1) {
-          const sashEl = (sash as any).el
-          if (sashEl) {
-            index = this.sashItems.findIndex((item) => {
-              const itemSashEl = (item.sash as any).el
-              return itemSashEl === sashEl
-            })
-          }
-        }
-        this.onSashEnd(index)
-        const sizes = this.viewItems.map(i => i.size)
-        this.onDidDragEnd?.(sizes)
-      })
-
-      sash.on('reset', () => {
-        // Find index handling potential Proxy wrapping
-        let index = this.sashItems.findIndex(item => item.sash === sash)
-        if (index === -1) {
-          const sashEl = (sash as any).el
-          if (sashEl) {
-            index = this.sashItems.findIndex((item) => {
-              const itemSashEl = (item.sash as any).el
-              return itemSashEl === sashEl
-            })
-          }
-        }
-        const upIndexes = range(index, -1, -1)
-        const downIndexes = range(index + 1, this.viewItems.length)
-        const snapBeforeIndex = this.findFirstSnapIndex(upIndexes)
-        const snapAfterIndex = this.findFirstSnapIndex(downIndexes)
-
-        if (
-          typeof snapBeforeIndex === 'number'
-          && !this.viewItems[snapBeforeIndex].visible
-        ) {
-          return
-        }
-
-        if (
-          typeof snapAfterIndex === 'number'
-          && !this.viewItems[snapAfterIndex].visible
-        ) {
-          return
-        }
-
-        this.emit('sashreset', index)
-      })
-
-      const sashItem: SashItem = { sash }
+      const sashItem: SashItem = { sash: this.createSash() }
 
       this.sashItems.splice(index - 1, 0, sashItem)
+      this.emit('sasheschange')
     }
 
     if (!skipLayout) {
-      this.relayout()
+      // The new view keeps its size, and the view being split gives up the space first
+      const highPriorityIndexes
+        = typeof size !== 'number' && size.type === 'split'
+          ? [size.index >= index ? size.index + 1 : size.index]
+          : undefined
+
+      this.relayout([index], highPriorityIndexes)
     }
 
     if (!skipLayout && typeof size !== 'number' && size.type === 'distribute') {
-      this.distributeViewSizes()
+      this.distributeViewItemSizes()
     }
   }
 
@@ -558,21 +798,33 @@ export class SplitView extends EventEmitter implements Disposable {
       throw new Error('Index out of bounds')
     }
 
+    // A drag in progress is cancelled while its sizes still line up with the views
+    for (const item of this.sashItems) item.sash.cancelDrag()
+
     // Remove view
     const viewItem = this.viewItems.splice(index, 1)[0]
     const view = viewItem.view
 
+    this.overflowHiddenViews = this.overflowHiddenViews.filter(v => v !== view)
+
     // Remove sash
     if (this.viewItems.length > 0) {
       const sashIndex = Math.max(index - 1, 0)
       const sashItem = this.sashItems.splice(sashIndex, 1)[0]
       sashItem.sash.dispose()
+      this.emit('sasheschange')
     }
 
-    this.relayout()
+    if (sizing && sizing.type === 'split') {
+      // The view at `sizing.index`, after removal, takes the freed space first
+      this.relayout(undefined, [sizing.index])
+    }
+    else {
+      this.relayout()
+    }
 
     if (sizing && sizing.type === 'distribute') {
-      this.distributeViewSizes()
+      this.distributeViewItemSizes()
     }
 
     return view
@@ -586,8 +838,15 @@ export class SplitView extends EventEmitter implements Disposable {
         ? this.getViewSize(from)
         : SizingUtils.Invisible(cachedVisibleSize)
 
+    // A view hidden for lack of room stays so, to be shown again once there is room
+    const overflowIndex = this.overflowHiddenViews.indexOf(this.viewItems[from].view)
+
     const view = this.removeView(from)
     this.addView(container, view, sizing, to)
+
+    if (overflowIndex !== -1) {
+      this.overflowHiddenViews.splice(overflowIndex, 0, view)
+    }
   }
 
   private getViewCachedVisibleSize(index: number): number | undefined {
@@ -599,14 +858,66 @@ export class SplitView extends EventEmitter implements Disposable {
     return viewItem.cachedVisibleSize
   }
 
+  /**
+   * Change the axis the views align on. View items and sashes are rebuilt for
+   * the new axis, and views keep their share of the space.
+   *
+   * @param orientation The new orientation.
+   * @param size The size of the {@link SplitView} along the new axis, if known.
+   */
+  public setOrientation(orientation: Orientation, size: number = this.size): void {
+    if (orientation === this._orientation) {
+      return
+    }
+
+    this._orientation = orientation
+
+    this.stopAnimation()
+    this.hideDragOverlay()
+    this.sashDragState = undefined
+
+    const contentSize = this.viewItems.reduce((r, i) => r + i.size, 0)
+    const ratio = contentSize > 0 ? size / contentSize : 1
+
+    for (const item of this.sashItems) item.sash.dispose()
+
+    this.viewItems = this.viewItems.map((item) => {
+      item.clearLayout()
+
+      const viewSize: ViewItemSize = item.visible
+        ? Math.round(item.size * ratio)
+        : { cachedVisibleSize: Math.round((item.cachedVisibleSize ?? 0) * ratio) }
+
+      return orientation === Orientation.Vertical
+        ? new VerticalViewItem(item.container, item.view, viewSize)
+        : new HorizontalViewItem(item.container, item.view, viewSize)
+    })
+
+    this.sashItems = this.viewItems.slice(1).map(() => ({ sash: this.createSash() }))
+    this.size = size
+
+    this.distributeEmptySpace()
+    this.layoutViews()
+    this.saveProportions()
+    this.emit('sasheschange')
+  }
+
   public layout(size: number = this.size): void {
     if (this.viewItems.length === 0) {
       return
     }
 
+    this.sizeViews(size)
+    this.layoutViews()
+  }
+
+  /** Fit the sizes of the views to `size`, without laying them out. */
+  private sizeViews(size: number): void {
     const previousSize = Math.max(this.size, this.contentSize)
     this.size = size
 
+    this.fitOverflow()
+
     if (this.proportions) {
       for (let i = 0; i < this.viewItems.length; i++) {
         const item = this.viewItems[i]
@@ -641,7 +952,6 @@ export class SplitView extends EventEmitter implements Disposable {
     }
 
     this.distributeEmptySpace()
-    this.layoutViews()
   }
 
   public resizeView(index: number, size: number): void {
@@ -666,28 +976,54 @@ export class SplitView extends EventEmitter implements Disposable {
     size = Math.round(size)
     size = clamp(size, item.minimumSize, Math.min(item.maximumSize, this.size))
 
-    item.size = size
-    this.relayout(lowPriorityIndexes, highPriorityIndexes)
+    this.animateLayout(() => this.withBeforeResize('api', () => {
+      item.size = size
+      this.relayout(lowPriorityIndexes, highPriorityIndexes, true)
+    }))
   }
 
   public resizeViews(sizes: number[]): void {
-    for (let [index, size] of sizes.entries()) {
-      const item = this.viewItems[index]
+    this.animateLayout(() => this.withBeforeResize('api', () => {
+      for (let [index, size] of sizes.entries()) {
+        const item = this.viewItems[index]
 
-      size = Math.round(size)
+        size = Math.round(size)
 
-      size = clamp(
-        size,
-        item.minimumSize,
-        Math.min(item.maximumSize, this.size),
-      )
+        size = clamp(
+          size,
+          item.minimumSize,
+          Math.min(item.maximumSize, this.size),
+        )
 
-      item.size = size
+        item.size = size
+      }
+
+      this.contentSize = this.viewItems.reduce((r, i) => r + i.size, 0)
+      this.saveProportions()
+      this.sizeViews(this.size)
+    }))
+  }
+
+  /** The sashes between the views, in order. `sasheschange` is emitted when they are replaced, added or removed. */
+  public getSashes(): readonly Sash[] {
+    return this.sashItems.map(item => item.sash)
+  }
+
+  /** Change the size, hover delay, enablement or collapse button labels of the sash after the view at `index`. */
+  public setSashOptions(index: number, options: SashItemOptions): void {
+    const item = this.sashItems[index]
+
+    if (!item) {
+      return
     }
 
-    this.contentSize = this.viewItems.reduce((r, i) => r + i.size, 0)
-    this.saveProportions()
-    this.layout(this.size)
+    item.size = options.size
+    item.sash.size = options.size ?? this._sashSize
+    item.sash.hoverDelay = options.hoverDelay
+    item.sash.collapseLabel = options.collapseLabel
+    item.sash.expandLabel = options.expandLabel
+    item.disabled = options.disabled
+    this.updateSashEnablement()
   }
 
   public getViewSize(index: number): number {
@@ -707,21 +1043,50 @@ export class SplitView extends EventEmitter implements Disposable {
     return viewItem.visible
   }
 
+  /** Whether the view is hidden but stays on screen at its {@link View.collapsedSize collapsed size}. */
+  public isViewCollapsed(index: number): boolean {
+    if (index < 0 || index >= this.viewItems.length) {
+      throw new Error('Index out of bounds')
+    }
+
+    return this.viewItems[index].collapsed
+  }
+
+  /** Whether the view is hidden because the views do not fit, with the `hide` overflow policy. */
+  public isViewHiddenByOverflow(index: number): boolean {
+    if (index < 0 || index >= this.viewItems.length) {
+      throw new Error('Index out of bounds')
+    }
+
+    return this.overflowHiddenViews.includes(this.viewItems[index].view)
+  }
+
   public setViewVisible(index: number, visible: boolean): void {
     if (index < 0 || index >= this.viewItems.length) {
       throw new Error('Index out of bounds')
     }
 
     const viewItem = this.viewItems[index]
-    viewItem.setVisible(visible)
 
-    this.emit('sashchange', index)
-    this.distributeEmptySpace()
-    this.layoutViews()
-    this.saveProportions()
+    // Showing or hiding the view on purpose overrides the overflow policy
+    this.overflowHiddenViews = this.overflowHiddenViews.filter(v => v !== viewItem.view)
+
+    this.animateLayout(() => {
+      viewItem.setVisible(visible)
+
+      this.emit('sashchange', index)
+      // The other views make room first, so a shown view gets its size back
+      this.distributeEmptySpace(index)
+      this.layoutViews()
+      this.saveProportions()
+    })
   }
 
   public distributeViewSizes(): void {
+    this.animateLayout(() => this.withBeforeResize('api', () => this.distributeViewItemSizes(true)))
+  }
+
+  private distributeViewItemSizes(skipLayout = false): void {
     const flexibleViewItems: ViewItem[] = []
     let flexibleSize = 0
 
@@ -748,47 +1113,269 @@ export class SplitView extends EventEmitter implements Disposable {
       i => this.viewItems[i].priority === LayoutPriority.High,
     )
 
-    this.relayout(lowPriorityIndexes, highPriorityIndexes)
+    this.relayout(lowPriorityIndexes, highPriorityIndexes, skipLayout)
   }
 
-  public dispose(): void {
-    for (const item of this.sashItems) item.sash.dispose()
-    this.sashItems = []
-    this.viewItems = []
+  /**
+   * Capture the current layout. Views are identified by their key so the
+   * layout can be restored after views are added, removed or reordered.
+   */
+  public toJSON(): SerializedSplitView {
+    return {
+      size: this.size,
+      views: this.viewItems.map((item, index) => {
+        // Views hidden for lack of room are saved as visible, to be hidden again if need be
+        if (this.overflowHiddenViews.includes(item.view)) {
+          const size = item.cachedVisibleSize ?? 0
+
+          return {
+            key: item.view.key ?? String(index),
+            proportion: this.size > 0 ? size / this.size : 0,
+            size,
+            visible: true,
+          }
+        }
 
-    if (this.sashContainer && this.sashContainer.parentElement) {
-      this.sashContainer.remove()
+        return {
+          key: item.view.key ?? String(index),
+          proportion: this.size > 0 ? item.size / this.size : 0,
+          size: item.size,
+          visible: item.visible,
+          ...(item.cachedVisibleSize !== undefined && {
+            cachedVisibleSize: item.cachedVisibleSize,
+          }),
+        }
+      }),
     }
   }
 
-  private onSashStart({ sash, start, current }: SashEvent): void {
-    // Find sash index, handling potential Proxy wrapping
-    let index = this.sashItems.findIndex(item => item.sash === sash)
+  /**
+   * Restore a layout captured by {@link SplitView.toJSON}, matching views by
+   * key rather than by index. Views missing from the layout keep their current
+   * size and the restored views share the remaining space in proportion.
+   * Views in the layout which no longer exist are ignored.
+   */
+  public fromJSON(json: SerializedSplitView): void {
+    const serializedViews = new Map(json.views.map(view => [view.key, view]))
 
-    // If direct comparison fails (due to Proxy wrapping), try comparing DOM elements
-    if (index === -1) {
-      const sashEl = (sash as any).el
-      if (sashEl) {
-        index = this.sashItems.findIndex((item) => {
-          const itemSashEl = (item.sash as any).el
-          return itemSashEl === sashEl
-        })
-      }
-    }
+    const matches = this.viewItems.map((item, index) =>
+      serializedViews.get(item.view.key ?? String(index)),
+    )
 
-    const sizes = this.viewItems.map(i => i.size)
+    const unmatchedSize = this.viewItems.reduce(
+      (r, item, index) => r + (matches[index] ? 0 : item.size),
+      0,
+    )
 
-    const upIndexes = range(index, -1, -1)
-    const downIndexes = range(index + 1, this.viewItems.length)
+    const matchedProportion = matches.reduce(
+      (r, match) => r + (match?.visible ? match.proportion : 0),
+      0,
+    )
+
+    // Views restored as hidden keep their collapsed size on screen
+    const hiddenSize = this.viewItems.reduce(
+      (r, item, index) => r + (matches[index] && !matches[index].visible ? item.collapsedSize : 0),
+      0,
+    )
+
+    const availableSize = Math.max(this.size - unmatchedSize - hiddenSize, 0)
+    const visibilityChanges: number[] = []
+
+    for (const [index, item] of this.viewItems.entries()) {
+      const match = matches[index]
+
+      if (!match) {
+        continue
+      }
+
+      if (match.visible !== item.visible) {
+        visibilityChanges.push(index)
+      }
+
+      this.overflowHiddenViews = this.overflowHiddenViews.filter(v => v !== item.view)
+
+      if (match.visible) {
+        item.setVisible(true)
+        item.size = clamp(
+          matchedProportion > 0
+            ? Math.round((match.proportion / matchedProportion) * availableSize)
+            : match.size,
+          item.minimumSize,
+          item.maximumSize,
+        )
+      }
+      else {
+        // Show the view first so its cached visible size is replaced
+        item.setVisible(true)
+        item.setVisible(false, match.cachedVisibleSize ?? match.size)
+      }
+    }
+
+    this.relayout()
 
-    const minDelta = this.getMinDelta(upIndexes, downIndexes, sizes)
-    const maxDelta = this.getMaxDelta(upIndexes, downIndexes, sizes)
+    if (visibilityChanges.length > 0) {
+      this.emit('sashchange', visibilityChanges[0])
+    }
+  }
+
+  public dispose(): void {
+    this.stopAnimation()
+    this.hideDragOverlay()
+
+    for (const item of this.sashItems) item.sash.dispose()
+    this.sashItems = []
+    this.viewItems = []
+
+    if (this.sashContainer && this.sashContainer.parentElement) {
+      this.sashContainer.remove()
+    }
+  }
+
+  /** Create a sash along the current orientation, wired up to resize the views around it. */
+  private createSash(): Sash {
+    const sashOptions = {
+      keyboardStep: this.keyboardStep,
+      keyboardLargeStep: this.keyboardLargeStep,
+      collapseButton: this._collapseButtons,
+      size: this._sashSize,
+    }
+
+    const sash
+      = this.orientation === Orientation.Vertical
+        ? new Sash(
+            this.sashContainer,
+            {
+              getHorizontalSashTop: (s: Sash) => this.getSashPosition(s),
+              getHorizontalSashWidth: this.getSashOrthogonalSize,
+            },
+            { ...sashOptions, orientation: Orientation.Horizontal },
+          )
+        : new Sash(
+            this.sashContainer,
+            {
+              getVerticalSashLeft: (s: Sash) => this.getSashPosition(s),
+              getVerticalSashHeight: this.getSashOrthogonalSize,
+            },
+            { ...sashOptions, orientation: Orientation.Vertical },
+          )
+
+    const sashEventMapper
+      = this.orientation === Orientation.Vertical
+        ? (e: BaseSashEvent) => ({
+            sash,
+            start: e.startY,
+            current: e.currentY,
+            symmetric: e.altKey,
+            adjacentOnly: e.shiftKey,
+          })
+        : (e: BaseSashEvent) => ({
+            sash,
+            start: e.startX,
+            current: e.currentX,
+            symmetric: e.altKey,
+            adjacentOnly: e.shiftKey,
+          })
+
+    sash.on('start', (event: BaseSashEvent) => {
+      this.showDragOverlay()
+      this.emit('sashDragStart')
+      this.onSashStart(sashEventMapper(event))
+      const sizes = this.viewItems.map(i => i.size)
+      this.onDidDragStart?.(sizes)
+    })
+
+    sash.on('change', (event: BaseSashEvent) =>
+      this.onSashChange(sashEventMapper(event)))
+
+    sash.on('end', () => {
+      this.hideDragOverlay()
+      this.emit('sashDragEnd')
+      this.onSashEnd(this.getSashIndex(sash), 'drag')
+      const sizes = this.viewItems.map(i => i.size)
+      this.onDidDragEnd?.(sizes, { cancelled: false })
+    })
+
+    sash.on('cancel', () => {
+      this.hideDragOverlay()
+      this.emit('sashDragEnd')
+      this.onSashCancel()
+      const sizes = this.viewItems.map(i => i.size)
+      this.onDidDragEnd?.(sizes, { cancelled: true })
+    })
+
+    sash.on('reset', () => {
+      const index = this.getSashIndex(sash)
+
+      this.emit('sashdoubleclick', index)
+
+      if (!this.resetOnDoubleClick || this.cycleSnapPoints(sash)) {
+        return
+      }
+      const upIndexes = range(index, -1, -1)
+      const downIndexes = range(index + 1, this.viewItems.length)
+      const snapBeforeIndex = this.findFirstSnapIndex(upIndexes)
+      const snapAfterIndex = this.findFirstSnapIndex(downIndexes)
+
+      if (
+        typeof snapBeforeIndex === 'number'
+        && !this.viewItems[snapBeforeIndex].visible
+      ) {
+        return
+      }
+
+      if (
+        typeof snapAfterIndex === 'number'
+        && !this.viewItems[snapAfterIndex].visible
+      ) {
+        return
+      }
+
+      this.emit('sashreset', index)
+    })
+
+    sash.on('keyboardchange', (delta: number) =>
+      this.onSashKeyboardChange(sash, delta))
+
+    sash.on('keyboardtoggle', () => this.onSashKeyboardToggle(sash))
+
+    sash.on('collapsetoggle', () => this.onSashKeyboardToggle(sash, 'visibility'))
+
+    return sash
+  }
+
+  private onSashStart({ sash, start, current, symmetric = false, adjacentOnly = false }: SashEvent): void {
+    // A drag takes over from an animation, starting from the sizes it was heading for
+    this.layoutViews()
+
+    const index = this.getSashIndex(sash)
+    const sizes = this.viewItems.map(i => i.size)
+    const cascade = this.cascade && !adjacentOnly
+    // Symmetric drags need a sash on the other side of the view
+    symmetric &&= this.viewItems.length > 2
+
+    const [upIndexes, downIndexes] = this.getResizeIndexes(index, cascade)
+
+    let minDelta = this.getMinDelta(upIndexes, downIndexes, sizes)
+    let maxDelta = this.getMaxDelta(upIndexes, downIndexes, sizes)
+
+    if (symmetric) {
+      // The view after the sash, or before the last sash, changes by twice the delta
+      const isLastSash = index === this.sashItems.length - 1
+      const viewItem = this.viewItems[isLastSash ? index : index + 1]
+      const [low, high] = isLastSash
+        ? [viewItem.minimumSize - viewItem.size, viewItem.maximumSize - viewItem.size]
+        : [viewItem.size - viewItem.maximumSize, viewItem.size - viewItem.minimumSize]
+
+      minDelta = Math.max(minDelta, low / 2)
+      maxDelta = Math.min(maxDelta, high / 2)
+    }
 
     let snapBefore: SashDragSnapState | undefined
     let snapAfter: SashDragSnapState | undefined
 
-    const snapBeforeIndex = this.findFirstSnapIndex(upIndexes)
-    const snapAfterIndex = this.findFirstSnapIndex(downIndexes)
+    // Views do not snap while they are resized symmetrically
+    const snapBeforeIndex = symmetric ? undefined : this.findFirstSnapIndex(upIndexes)
+    const snapAfterIndex = symmetric ? undefined : this.findFirstSnapIndex(downIndexes)
 
     if (typeof snapBeforeIndex === 'number') {
       const viewItem = this.viewItems[snapBeforeIndex]
@@ -819,28 +1406,346 @@ export class SplitView extends EventEmitter implements Disposable {
       start,
       current,
       sizes,
+      cachedVisibleSizes: this.viewItems.map(i => i.cachedVisibleSize),
       minDelta,
       maxDelta,
       snapBefore,
       snapAfter,
+      symmetric,
+      cascade,
     }
   }
 
   private onSashChange({ current }: SashEvent): void {
-    const { index, start, sizes, minDelta, maxDelta, snapBefore, snapAfter } = this.sashDragState!
-    const delta = current - start
+    const { index, start, sizes, minDelta, maxDelta, snapBefore, snapAfter, symmetric, cascade }
+      = this.sashDragState!
+    const delta = this.getSnappedDelta(index, sizes, current - start)
 
-    this.resize(index, delta, sizes, undefined, undefined, minDelta, maxDelta, snapBefore, snapAfter)
-    this.distributeEmptySpace()
-    this.layoutViews()
+    this.withBeforeResize('drag', () => {
+      const resizedDelta = this.resize(index, delta, sizes, undefined, undefined, minDelta, maxDelta, snapBefore, snapAfter)
+
+      if (symmetric) {
+        this.resizeSymmetrically(index, resizedDelta, cascade)
+      }
+
+      this.distributeEmptySpace()
+    })
+  }
+
+  /**
+   * Move the sash on the other side of the view after the sash, or before the
+   * last sash, the opposite way, so the view stays centred.
+   */
+  private resizeSymmetrically(index: number, delta: number, cascade: boolean): void {
+    const isLastSash = index === this.sashItems.length - 1
+    const sizes = this.viewItems.map(i => i.size)
+    const viewItem = this.viewItems[isLastSash ? index : index + 1]
+    const resizeIndex = isLastSash ? index - 1 : index + 1
+    const [upIndexes, downIndexes] = this.getResizeIndexes(resizeIndex, cascade)
+    // The view is after the other sash when it is before the last sash
+    const [low, high] = isLastSash
+      ? [viewItem.size - viewItem.maximumSize, viewItem.size - viewItem.minimumSize]
+      : [viewItem.minimumSize - viewItem.size, viewItem.maximumSize - viewItem.size]
+
+    this.resize(
+      resizeIndex,
+      -delta,
+      sizes,
+      undefined,
+      undefined,
+      Math.max(low, this.getMinDelta(upIndexes, downIndexes, sizes)),
+      Math.min(high, this.getMaxDelta(upIndexes, downIndexes, sizes)),
+    )
   }
 
-  private onSashEnd(index: number): void {
+  /**
+   * The views before and after a sash which it resizes, nearest first. Without
+   * cascading only the two views next to the sash are resized.
+   */
+  private getResizeIndexes(index: number, cascade: boolean): [number[], number[]] {
+    return cascade
+      ? [range(index, -1, -1), range(index + 1, this.viewItems.length)]
+      : [[index], [index + 1]]
+  }
+
+  private onSashEnd(index: number, reason: SashChangeReason): void {
     this.emit('sashchange', index)
     this.sashDragState = undefined
     this.saveProportions()
     const sizes = this.viewItems.map(i => i.size)
-    this.onDidChange?.(sizes)
+    this.onDidChange?.(sizes, reason)
+  }
+
+  /**
+   * Cover the page while a sash is dragged, so iframes within views, including
+   * those of nested split views, cannot swallow the pointer events of the drag.
+   */
+  private showDragOverlay(): void {
+    this.hideDragOverlay()
+
+    this.dragOverlay = document.createElement('div')
+    this.dragOverlay.classList.add(
+      'split-view-drag-overlay',
+      styles.dragOverlay,
+      this.orientation === Orientation.Vertical ? styles.vertical : styles.horizontal,
+    )
+
+    if (isMacintosh) {
+      this.dragOverlay.classList.add(styles.mac)
+    }
+
+    document.body.append(this.dragOverlay)
+    document.documentElement.classList.add(styles.sashDragging)
+  }
+
+  private hideDragOverlay(): void {
+    if (!this.dragOverlay) {
+      return
+    }
+
+    this.dragOverlay.remove()
+    this.dragOverlay = undefined
+    document.documentElement.classList.remove(styles.sashDragging)
+  }
+
+  /**
+   * Abandon a drag, returning every view to its size and visibility from
+   * before the drag started. Nothing has changed, so no change is reported.
+   */
+  private onSashCancel(): void {
+    if (!this.sashDragState) {
+      return
+    }
+
+    const { sizes, cachedVisibleSizes } = this.sashDragState
+
+    this.restoreViewItems(sizes, cachedVisibleSizes)
+    this.sashDragState = undefined
+    this.layoutViews()
+  }
+
+  /** Return the views to earlier sizes, showing or hiding again views which snapped since. */
+  private restoreViewItems(sizes: number[], cachedVisibleSizes: (number | undefined)[]): void {
+    for (const [index, item] of this.viewItems.entries()) {
+      const cachedVisibleSize = cachedVisibleSizes[index]
+
+      if (cachedVisibleSize === undefined) {
+        item.setVisible(true)
+        item.size = sizes[index]
+      }
+      else {
+        item.setVisible(false, cachedVisibleSize)
+      }
+    }
+
+    this.contentSize = this.viewItems.reduce((r, i) => r + i.size, 0)
+  }
+
+  /**
+   * Make a change to the sizes of the views, then let {@link SplitView.beforeResize}
+   * adjust or veto the new sizes. Adjusted sizes are kept within the constraints of the views.
+   * `update` must not lay out the views: they are laid out once, with the sizes which are kept.
+   */
+  private withBeforeResize(reason: BeforeResizeEvent['reason'], update: () => void): void {
+    const previousSizes = this.viewItems.map(i => i.size)
+    const cachedVisibleSizes = this.viewItems.map(i => i.cachedVisibleSize)
+
+    update()
+
+    const sizes = this.viewItems.map(i => i.size)
+
+    // Unchanged sizes are laid out without asking
+    const unchanged = sizes.every((size, index) => size === previousSizes[index])
+    const result = unchanged ? undefined : this.beforeResize?.({ sizes, previousSizes, reason })
+
+    if (result === false) {
+      this.restoreViewItems(previousSizes, cachedVisibleSizes)
+    }
+    else if (result) {
+      for (const [index, item] of this.viewItems.entries()) {
+        item.size = clamp(result[index] ?? item.size, item.minimumSize, item.maximumSize)
+      }
+
+      this.distributeEmptySpace()
+    }
+
+    this.layoutViews()
+
+    // Drags save their proportions once they end
+    if (!this.sashDragState) {
+      this.saveProportions()
+    }
+  }
+
+  /**
+   * Move a sash from the keyboard by `delta` pixels. An infinite delta moves
+   * the sash as far as its constraints allow.
+   */
+  private onSashKeyboardChange(sash: Sash, delta: number): void {
+    this.onSashKeyboardMove(sash, ({ minDelta, maxDelta, snapBefore, snapAfter, cascade }) => ({
+      delta: Number.isFinite(delta) ? delta : clamp(delta, minDelta, maxDelta),
+      // Without cascading, only the views next to the sash may change, as in a drag
+      ...(!cascade && { minDelta, maxDelta }),
+      snapBefore,
+      snapAfter,
+    }))
+  }
+
+  /**
+   * Collapse or restore a snappable view adjacent to a sash from the keyboard
+   * or its collapse button. A snapped view is restored first, otherwise the
+   * view before the sash is collapsed, falling back to the view after it.
+   */
+  private onSashKeyboardToggle(sash: Sash, reason: SashChangeReason = 'keyboard'): void {
+    this.onSashKeyboardMove(sash, ({ index, sizes, snapBefore, snapAfter }) => {
+      const before = snapBefore?.index === index ? snapBefore : undefined
+      const after = snapAfter?.index === index + 1 ? snapAfter : undefined
+      const beforeItem = this.viewItems[index]
+      const afterItem = this.viewItems[index + 1]
+
+      if (before && !beforeItem.visible) {
+        const delta = Math.max(before.limitDelta, (beforeItem.cachedVisibleSize ?? 0) - sizes[index])
+        return { delta, snapBefore: before }
+      }
+
+      if (after && !afterItem.visible) {
+        const delta = Math.min(after.limitDelta - 1, sizes[index + 1] - (afterItem.cachedVisibleSize ?? 0))
+        return { delta, snapAfter: after }
+      }
+
+      if (before) {
+        return { delta: Math.min(before.limitDelta - 1, -sizes[index]), snapBefore: before }
+      }
+
+      if (after) {
+        return { delta: Math.max(after.limitDelta, sizes[index + 1]), snapAfter: after }
+      }
+    }, reason)
+  }
+
+  /**
+   * Which way the collapse button of the sash after the view at `index` points,
+   * and whether it restores a view, in the order {@link SplitView.onSashKeyboardToggle} picks the view.
+   */
+  private getCollapseDirection(index: number): [SashCollapseDirection | undefined, boolean] {
+    const [before, after] = [this.viewItems[index], this.viewItems[index + 1]].map(
+      item => (item.snap && !this.overflowHiddenViews.includes(item.view) ? item : undefined),
+    )
+
+    if (before && !before.visible) {
+      return ['after', true]
+    }
+
+    if (after && !after.visible) {
+      return ['before', true]
+    }
+
+    if (before) {
+      return ['before', false]
+    }
+
+    return [after && 'after', false]
+  }
+
+  /**
+   * Stick a dragged sash to the snap points of the views either side of it,
+   * or failing that to the snap grid.
+   */
+  private getSnappedDelta(index: number, sizes: number[], delta: number): number {
+    const targets = [
+      { item: this.viewItems[index], size: sizes[index], direction: 1 },
+      { item: this.viewItems[index + 1], size: sizes[index + 1], direction: -1 },
+    ]
+
+    let snappedDelta: number | undefined
+
+    for (const { item, size, direction } of targets) {
+      if (!item?.visible) {
+        continue
+      }
+
+      const threshold = item.view.snapThreshold ?? DEFAULT_SNAP_THRESHOLD
+
+      for (const point of item.view.snapPoints ?? []) {
+        const pointDelta = (point - size) * direction
+
+        if (
+          Math.abs(pointDelta - delta) <= threshold
+          && (snappedDelta === undefined || Math.abs(pointDelta - delta) < Math.abs(snappedDelta - delta))
+        ) {
+          snappedDelta = pointDelta
+        }
+      }
+    }
+
+    if (snappedDelta !== undefined) {
+      return snappedDelta
+    }
+
+    if (this.snapGrid && this.snapGrid > 0) {
+      const position = sizes.slice(0, index + 1).reduce((r, s) => r + s, 0)
+
+      return Math.round((position + delta) / this.snapGrid) * this.snapGrid - position
+    }
+
+    return delta
+  }
+
+  /**
+   * Move a double-clicked sash to the next snap point of the view before it,
+   * or else of the view after it, wrapping around to the smallest.
+   *
+   * @returns Whether either view has snap points.
+   */
+  private cycleSnapPoints(sash: Sash): boolean {
+    const index = this.getSashIndex(sash)
+
+    const targetIndex = [index, index + 1].find(
+      i => this.viewItems[i]?.visible && (this.viewItems[i].view.snapPoints?.length ?? 0) > 0,
+    )
+
+    if (targetIndex === undefined) {
+      return false
+    }
+
+    const item = this.viewItems[targetIndex]
+    const points = [...item.view.snapPoints!].sort((a, b) => a - b)
+    const next = points.find(point => point > item.size + 1) ?? points[0]
+
+    this.onSashKeyboardMove(sash, ({ sizes }) => ({
+      delta: targetIndex === index ? next - sizes[index] : sizes[index + 1] - next,
+    }), 'reset')
+
+    return true
+  }
+
+  /**
+   * Keyboard moves, and snap points cycled by double-clicking, go through the
+   * same {@link SplitView.resize resize} path as a drag, so size constraints and snapping still apply. The bounds are not
+   * frozen at the start of the move unless the move sets them, which lets a snapped view be restored.
+   */
+  private onSashKeyboardMove(
+    sash: Sash,
+    getMove: (state: SashDragState) => SashKeyboardMove | undefined,
+    reason: SashChangeReason = 'keyboard',
+  ): void {
+    const start = this.getSashPosition(sash)
+
+    this.onSashStart({ sash, start, current: start })
+
+    const { index, sizes } = this.sashDragState!
+    const move = getMove(this.sashDragState!)
+
+    if (!move) {
+      this.sashDragState = undefined
+      return
+    }
+
+    this.withBeforeResize(reason, () => {
+      this.resize(index, move.delta, sizes, undefined, undefined, move.minDelta, move.maxDelta, move.snapBefore, move.snapAfter)
+      this.distributeEmptySpace()
+    })
+    this.onSashEnd(index, reason)
   }
 
   private getMinDelta(upIndexes: number[], downIndexes: number[], sizes: number[]): number {
@@ -1010,6 +1915,8 @@ export class SplitView extends EventEmitter implements Disposable {
       return
     }
 
+    this.fitOverflow(lowPriorityIndex)
+
     const contentSize = this.viewItems.reduce((r, i) => r + i.size, 0)
     let emptyDelta = this.size - contentSize
 
@@ -1060,7 +1967,193 @@ export class SplitView extends EventEmitter implements Disposable {
     this.contentSize = this.viewItems.reduce((r, i) => r + i.size, 0)
   }
 
+  /**
+   * Apply the overflow policy, so the minimum sizes of the views fit within the
+   * size of the split view.
+   *
+   * @param keepIndex A view to hide last, such as one which was just shown.
+   */
+  private fitOverflow(keepIndex?: number): void {
+    // Nothing fits before the split view has been laid out
+    if (this.size <= 0) {
+      return
+    }
+
+    const getMinimumSize = (): number =>
+      this.viewItems.reduce((r, i) => r + (i.visible ? i.view.minimumSize : i.collapsedSize), 0)
+
+    // Show views hidden for lack of room once there is room again
+    while (this.overflowHiddenViews.length > 0) {
+      const view = this.overflowHiddenViews.at(-1)!
+      const index = this.viewItems.findIndex(i => i.view === view)
+
+      if (this.overflow === 'hide' && getMinimumSize() + view.minimumSize > this.size) {
+        break
+      }
+
+      this.overflowHiddenViews.pop()
+      this.viewItems[index].setVisible(true)
+      this.emit('overflowchange', index, true)
+    }
+
+    while (this.overflow === 'hide' && getMinimumSize() > this.size) {
+      const index = this.findOverflowViewToHide(keepIndex)
+
+      if (index === undefined) {
+        break
+      }
+
+      this.overflowHiddenViews.push(this.viewItems[index].view)
+      this.viewItems[index].setVisible(false)
+      this.emit('overflowchange', index, false)
+    }
+
+    const minimumSize = getMinimumSize()
+    const minimumScale = this.overflow === 'shrink' && minimumSize > this.size
+      ? this.size / minimumSize
+      : 1
+
+    for (const item of this.viewItems) {
+      item.minimumScale = minimumScale
+    }
+  }
+
+  /** The visible view with the lowest priority, the last of them on a tie. One view always stays visible. */
+  private findOverflowViewToHide(keepIndex?: number): number | undefined {
+    const visibleIndexes = range(0, this.viewItems.length).filter(
+      i => this.viewItems[i].visible,
+    )
+
+    if (visibleIndexes.length <= 1) {
+      return undefined
+    }
+
+    const rank = (index: number): number => {
+      if (index === keepIndex) {
+        return 3
+      }
+
+      switch (this.viewItems[index].priority) {
+        case LayoutPriority.Low: {
+          return 0
+        }
+        case LayoutPriority.High: {
+          return 2
+        }
+        default: {
+          return 1
+        }
+      }
+    }
+
+    let result = visibleIndexes[0]
+
+    for (const index of visibleIndexes) {
+      if (rank(index) <= rank(result)) {
+        result = index
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Apply a change to the sizes or visibility of views, then animate the views
+   * from the sizes they are displayed at to their new sizes. The views hold
+   * their new sizes throughout, only the displayed sizes are interpolated.
+   */
+  private animateLayout(update: () => void): void {
+    const from = this.animation?.current ?? this.viewItems.map(i => i.size)
+    const visible = this.viewItems.map(i => i.visible)
+
+    // Laying out the views during the update stops any running animation
+    update()
+
+    const to = this.viewItems.map(i => i.size)
+    const duration = this.animate?.duration ?? DEFAULT_ANIMATION_DURATION
+
+    if (
+      !this.animate
+      || duration <= 0
+      || prefersReducedMotion()
+      || typeof requestAnimationFrame !== 'function'
+      || from.length !== to.length
+      || from.every((size, index) => size === to[index])
+    ) {
+      return
+    }
+
+    const easing = typeof this.animate.easing === 'function'
+      ? this.animate.easing
+      : easings[this.animate.easing ?? 'ease-out']
+
+    let startTime: number | undefined
+
+    const onFrame = (time: number) => {
+      startTime ??= time
+
+      const progress = Math.min((time - startTime) / duration, 1)
+
+      if (progress >= 1) {
+        this.layoutViews()
+        this.onDidChange?.(to)
+        return
+      }
+
+      const animation = this.animation!
+      const eased = easing(progress)
+
+      animation.current = this.viewItems.map((item, index) =>
+        clamp(
+          from[index] + (to[index] - from[index]) * eased,
+          animation.constrained[index] ? item.minimumSize : 0,
+          item.view.maximumSize,
+        ),
+      )
+
+      this.renderViewsAt(animation.current)
+      animation.frame = requestAnimationFrame(onFrame)
+    }
+
+    this.animation = {
+      frame: requestAnimationFrame(onFrame),
+      current: from,
+      constrained: this.viewItems.map((item, index) => visible[index] && item.visible),
+    }
+
+    this.renderViewsAt(from)
+  }
+
+  private stopAnimation(): void {
+    if (this.animation) {
+      cancelAnimationFrame(this.animation.frame)
+      this.animation = undefined
+    }
+  }
+
+  /** Render the views at the given sizes, without changing the sizes the views hold. */
+  private renderViewsAt(sizes: number[]): void {
+    const targetSizes = this.viewItems.map(i => i.size)
+
+    for (const [index, item] of this.viewItems.entries()) {
+      item.size = sizes[index]
+    }
+
+    this.renderViews()
+
+    for (const [index, item] of this.viewItems.entries()) {
+      item.size = targetSizes[index]
+    }
+
+    this.contentSize = this.viewItems.reduce((r, i) => r + i.size, 0)
+  }
+
   private layoutViews(): void {
+    this.stopAnimation()
+    this.renderViews()
+  }
+
+  private renderViews(): void {
     // Save new content size
     this.contentSize = this.viewItems.reduce((r, i) => r + i.size, 0)
 
@@ -1077,6 +2170,11 @@ export class SplitView extends EventEmitter implements Disposable {
     // Layout sashes
     for (const item of this.sashItems) item.sash.layout()
     this.updateSashEnablement()
+
+    const scrollable = this.overflow === 'scroll' && this.contentSize > this.size
+    this.el.classList.toggle('split-view-scrollable', scrollable)
+    this.el.classList.toggle(styles.scrollable, scrollable)
+    this.updateSashAriaValues()
   }
 
   private saveProportions(): void {
@@ -1085,7 +2183,7 @@ export class SplitView extends EventEmitter implements Disposable {
     }
   }
 
-  private relayout(lowPriorityIndexes?: number[], highPriorityIndexes?: number[]): void {
+  private relayout(lowPriorityIndexes?: number[], highPriorityIndexes?: number[], skipLayout = false): void {
     const contentSize = this.viewItems.reduce((r, i) => r + i.size, 0)
 
     this.resize(
@@ -1099,7 +2197,11 @@ export class SplitView extends EventEmitter implements Disposable {
     )
 
     this.distributeEmptySpace()
-    this.layoutViews()
+
+    if (!skipLayout) {
+      this.layoutViews()
+    }
+
     this.saveProportions()
   }
 
@@ -1142,6 +2244,26 @@ export class SplitView extends EventEmitter implements Disposable {
     return position
   }
 
+  /**
+   * Find the index of a sash, comparing DOM elements when a direct comparison
+   * fails because the sash has been wrapped in a Proxy.
+   */
+  private getSashIndex(sash: Sash): number {
+    let index = this.sashItems.findIndex(item => item.sash === sash)
+
+    if (index === -1) {
+      const sashEl = (sash as any).el
+      if (sashEl) {
+        index = this.sashItems.findIndex((item) => {
+          const itemSashEl = (item.sash as any).el
+          return itemSashEl === sashEl
+        })
+      }
+    }
+
+    return index
+  }
+
   private findFirstSnapIndex(indexes: number[]): number | undefined {
     for (const index of indexes) {
       const viewItem = this.viewItems[index]
@@ -1200,11 +2322,22 @@ export class SplitView extends EventEmitter implements Disposable {
     let position = 0
 
     for (let index = 0; index < this.sashItems.length; index++) {
-      const { sash } = this.sashItems[index]
+      const { sash, disabled } = this.sashItems[index]
       const viewItem = this.viewItems[index]
 
       position += viewItem.size
 
+      if (sash.hasCollapseButton) {
+        const [direction, restores] = this.getCollapseDirection(index)
+
+        sash.setCollapseDirection(disabled ? undefined : direction, restores)
+      }
+
+      if (disabled) {
+        sash.state = SashState.Disabled
+        continue
+      }
+
       const min = !(collapsesDown[index] && expandsUp[index + 1])
       const max = !(expandsDown[index] && collapsesUp[index + 1])
 
@@ -1251,4 +2384,22 @@ export class SplitView extends EventEmitter implements Disposable {
       }
     }
   }
+
+  private updateSashAriaValues(): void {
+    const sizes = this.viewItems.map(i => i.size)
+    let position = 0
+
+    for (let index = 0; index < this.sashItems.length; index++) {
+      position += sizes[index]
+
+      const upIndexes = range(index, -1, -1)
+      const downIndexes = range(index + 1, this.viewItems.length)
+
+      this.sashItems[index].sash.setAriaValues(
+        position,
+        position + this.getMinDelta(upIndexes, downIndexes, sizes),
+        position + this.getMaxDelta(upIndexes, downIndexes, sizes),
+      )
+    }
+  }
 }
@@ -0,0 +1,38 @@
+import type { InjectionKey } from 'vue'
+import type { AllotmentHandle } from '../Allotment.vue'
+import type { PaneProps } from '../Pane.vue'
+import type { PaneContext } from '../use-pane'
+import { inject } from 'vue'
+
+/** What an `Allotment` provides to the panes and components within it. */
+export interface AllotmentContext {
+  /** The same handle as a template ref on the `Allotment` exposes. */
+  readonly handle: AllotmentHandle
+
+  registerPane: (key: string, element: HTMLElement, props: PaneProps) => void
+
+  /** Register an element which is not a `Pane`, wrapped so it can be laid out like one. */
+  registerNonPane: (key: string, element: HTMLElement) => void
+
+  unregisterPane: (key: string) => void
+
+  isCollapsed: (key: string) => boolean
+
+  getPane: (key: string) => PaneContext
+}
+
+export const allotmentInjectionKey: InjectionKey<AllotmentContext> = Symbol('allotment')
+
+/**
+ * The handle of the nearest enclosing `Allotment`, for controlling its layout
+ * from anywhere within it without a template ref.
+ */
+export function useAllotment(): AllotmentHandle {
+  const allotment = inject(allotmentInjectionKey, undefined)
+
+  if (!allotment) {
+    throw new Error('useAllotment() must be called within an Allotment')
+  }
+
+  return allotment.handle
+}
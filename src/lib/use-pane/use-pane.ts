@@ -0,0 +1,46 @@
+import type { InjectionKey, Ref } from 'vue'
+import { inject } from 'vue'
+
+/** The layout of a pane and actions on it, as returned by {@link usePane}. */
+export interface PaneContext {
+  /** The size of the pane along the split direction, in pixels. */
+  readonly size: Readonly<Ref<number>>
+
+  /** The offset of the pane from the start of the split view, in pixels. */
+  readonly offset: Readonly<Ref<number>>
+
+  /** The position of the pane within the split view, or -1 before it is laid out. */
+  readonly index: Readonly<Ref<number>>
+
+  /** Whether the pane is on screen. A pane collapsed to its `collapsedSize` stays visible. */
+  readonly visible: Readonly<Ref<boolean>>
+
+  /** Whether the pane is collapsed. */
+  readonly collapsed: Readonly<Ref<boolean>>
+
+  /** Whether a sash of the split view is being dragged. */
+  readonly isDragging: Readonly<Ref<boolean>>
+
+  /** Resize the pane, taking the space from the other panes. */
+  resize: (size: number) => void
+
+  collapse: () => void
+
+  expand: () => void
+}
+
+export const paneInjectionKey: InjectionKey<PaneContext> = Symbol('pane')
+
+/**
+ * The layout of the {@link Pane} a component is rendered in, kept up to date
+ * by the split view as it lays out and shows or hides the pane.
+ */
+export function usePane(): PaneContext {
+  const pane = inject(paneInjectionKey, undefined)
+
+  if (!pane) {
+    throw new Error('usePane() must be called within a Pane')
+  }
+
+  return pane
+}
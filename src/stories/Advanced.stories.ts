@@ -1,5 +1,7 @@
 import type { Meta, StoryObj } from '@storybook/vue3-vite'
-import { Allotment, Pane } from '../lib'
+import type { AllotmentGridHandle } from '../lib'
+import { ref } from 'vue'
+import { Allotment, AllotmentGrid, Direction, Pane } from '../lib'
 import Content from './Content.vue'
 
 const meta = {
@@ -313,3 +315,61 @@ export const ResponsiveLayout: Story = {
     `,
   }),
 }
+
+// Grid layout driven by a tree of branches and leaves
+export const GridLayout: Story = {
+  render: () => ({
+    components: { AllotmentGrid, Content },
+    setup() {
+      const gridRef = ref<AllotmentGridHandle>()
+      let count = 0
+
+      const layout = {
+        type: 'branch' as const,
+        children: [
+          { type: 'leaf' as const, id: 'explorer', size: 250 },
+          {
+            type: 'branch' as const,
+            size: 750,
+            children: [
+              { type: 'leaf' as const, id: 'editor', size: 450 },
+              { type: 'leaf' as const, id: 'terminal', size: 150 },
+            ],
+          },
+        ],
+      }
+
+      const splitEditor = (direction: Direction) => {
+        gridRef.value?.splitView('editor', direction, `editor-${++count}`)
+      }
+
+      return { gridRef, layout, splitEditor, Direction }
+    },
+    template: `
+      <div style="height: 600px; border: 1px solid #ddd;">
+        <div style="padding: 8px; background: #f5f5f5; border-bottom: 1px solid #ddd; display: flex; gap: 8px;">
+          <button @click="splitEditor(Direction.Right)">Split Editor Right</button>
+          <button @click="splitEditor(Direction.Down)">Split Editor Down</button>
+          <button @click="gridRef?.swapViews('explorer', 'terminal')">Swap Explorer and Terminal</button>
+        </div>
+
+        <div style="height: calc(100% - 42px);">
+          <AllotmentGrid ref="gridRef" :layout="layout">
+            <template #explorer>
+              <Content title="Explorer" subtitle="Leaf: explorer" />
+            </template>
+            <template #editor>
+              <Content title="Editor" subtitle="Leaf: editor" />
+            </template>
+            <template #terminal>
+              <Content title="Terminal" subtitle="Leaf: terminal" />
+            </template>
+            <template #default="{ id }">
+              <Content :title="id" subtitle="Added with splitView" />
+            </template>
+          </AllotmentGrid>
+        </div>
+      </div>
+    `,
+  }),
+}
@@ -1,6 +1,7 @@
 import type { Meta, StoryObj } from '@storybook/vue3-vite'
-import { ref } from 'vue'
-import { Allotment, Pane, type AllotmentHandle } from '../lib'
+import type { AllotmentHandle } from '../lib'
+import { defineComponent, ref } from 'vue'
+import { Allotment, LayoutPriority, Pane, SashState, useAllotment, usePane } from '../lib'
 import Content from './Content.vue'
 
 // Mock action for stories
@@ -8,6 +9,39 @@ const action = (name: string) => (...args: any[]) => {
   console.log(`Action: ${name}`, args)
 }
 
+// Shows the layout of the pane it is rendered in
+const PaneInfo = defineComponent({
+  setup() {
+    return usePane()
+  },
+  template: `
+    <div style="padding: 16px; font-family: monospace; line-height: 1.6;">
+      <div>size: {{ Math.round(size) }}px</div>
+      <div>offset: {{ Math.round(offset) }}px</div>
+      <div>index: {{ index }}</div>
+      <div>visible: {{ visible }}</div>
+      <div>collapsed: {{ collapsed }}</div>
+      <div>isDragging: {{ isDragging }}</div>
+      <button @click="resize(200)">Resize to 200px</button>
+      <button @click="collapsed ? expand() : collapse()">{{ collapsed ? 'Expand' : 'Collapse' }}</button>
+    </div>
+  `,
+})
+
+// Toggles the sidebar of the Allotment it is rendered in
+const SidebarToggle = defineComponent({
+  setup() {
+    return { allotment: useAllotment() }
+  },
+  template: `
+    <div style="padding: 12px; background: #f5f5f5; border-bottom: 1px solid #ddd; display: flex; gap: 8px;">
+      <button @click="allotment.toggle('sidebar')">Toggle Sidebar</button>
+      <button @click="allotment.setVisible('outline', !allotment.isVisible('outline'))">Show/Hide Outline</button>
+      <button @click="allotment.reset()">Reset</button>
+    </div>
+  `,
+})
+
 const meta = {
   title: 'Interactive/Programmatic Control',
   component: Allotment,
@@ -168,14 +202,17 @@ export const SizeMonitoring: Story = {
     components: { Allotment, Pane, Content },
     setup() {
       const currentSizes = ref<number[]>([])
+      const lastReason = ref('')
       
-      const handleSizeChange = (sizes: number[]) => {
+      const handleSizeChange = (sizes: number[], event: { reason: string }) => {
         currentSizes.value = sizes
-        action('size-change')(sizes)
+        lastReason.value = event.reason
+        action('size-change')(sizes, event)
       }
       
       return {
         currentSizes,
+        lastReason,
         handleSizeChange,
       }
     },
@@ -185,6 +222,7 @@ export const SizeMonitoring: Story = {
           <div style="font-weight: bold; margin-bottom: 4px;">Current Sizes:</div>
           <div style="font-family: monospace; font-size: 14px;">
             {{ currentSizes.map(s => s.toFixed(1) + 'px').join(' | ') }}
+            <span v-if="lastReason" style="color: #666;">({{ lastReason }})</span>
           </div>
         </div>
         
@@ -234,4 +272,517 @@ export const SizeMonitoring: Story = {
       </div>
     `,
   }),
-}
\ No newline at end of file
+}
+
+// Drag panes by their title to reorder them
+export const PaneReordering: Story = {
+  render: () => ({
+    components: { Allotment, Pane, Content },
+    setup() {
+      const panes = ref(['Explorer', 'Editor', 'Outline'])
+
+      const handleLayoutChange = (keys: string[]) => {
+        panes.value = keys
+        action('layout-change')(keys)
+      }
+
+      return {
+        panes,
+        handleLayoutChange,
+      }
+    },
+    template: `
+      <div style="height: 500px; border: 1px solid #ddd;">
+        <div style="padding: 12px; background: #f5f5f5; border-bottom: 1px solid #ddd; font-family: monospace; font-size: 14px;">
+          {{ panes.join(' | ') }}
+        </div>
+
+        <div style="height: calc(100% - 46px);">
+          <Allotment drag-handle=".pane-title" @layout-change="handleLayoutChange">
+            <Pane v-for="pane in panes" :key="pane" :min-size="pane === 'Editor' ? 250 : 100">
+              <div class="pane-title" style="padding: 6px 12px; background: #e0e0e0; cursor: grab;">
+                {{ pane }}
+              </div>
+              <Content
+                :title="pane"
+                subtitle="Drag the title onto an edge to move, or the centre to swap"
+              />
+            </Pane>
+          </Allotment>
+        </div>
+      </div>
+    `,
+  }),
+}
+
+// Animate visibility changes and programmatic resizes
+export const AnimatedTransitions: Story = {
+  render: () => ({
+    components: { Allotment, Pane, Content },
+    setup() {
+      const allotmentRef = ref<AllotmentHandle>()
+      const showSidebar = ref(true)
+
+      return {
+        allotmentRef,
+        showSidebar,
+      }
+    },
+    template: `
+      <div style="height: 500px; border: 1px solid #ddd;">
+        <div style="padding: 12px; background: #f5f5f5; border-bottom: 1px solid #ddd; display: flex; gap: 8px;">
+          <button @click="showSidebar = !showSidebar">Toggle Sidebar</button>
+          <button @click="allotmentRef?.resize([150, 450, 150])">Resize</button>
+          <button @click="allotmentRef?.reset()">Reset</button>
+        </div>
+
+        <div style="height: calc(100% - 60px);">
+          <Allotment ref="allotmentRef" :animate="{ duration: 300, easing: 'ease-in-out' }">
+            <Pane :visible="showSidebar" :min-size="120" :preferred-size="200">
+              <Content title="Sidebar" subtitle="Slides in and out" />
+            </Pane>
+            <Pane>
+              <Content title="Editor" subtitle="Fills the remaining space" />
+            </Pane>
+            <Pane :preferred-size="150">
+              <Content title="Outline" subtitle="Animates on reset and resize" />
+            </Pane>
+          </Allotment>
+        </div>
+      </div>
+    `,
+  }),
+}
+
+// Collapse, expand and maximize panes by key
+export const CollapseAndMaximize: Story = {
+  render: () => ({
+    components: { Allotment, Pane, Content },
+    setup() {
+      const allotmentRef = ref<AllotmentHandle>()
+      const sidebarCollapsed = ref(false)
+
+      return {
+        allotmentRef,
+        sidebarCollapsed,
+        action,
+      }
+    },
+    template: `
+      <div style="height: 500px; border: 1px solid #ddd;">
+        <div style="padding: 12px; background: #f5f5f5; border-bottom: 1px solid #ddd; display: flex; gap: 8px; align-items: center;">
+          <button @click="allotmentRef?.toggle('sidebar')">Toggle Sidebar</button>
+          <button @click="allotmentRef?.maximize('editor')">Maximize Editor</button>
+          <button @click="allotmentRef?.restore()">Restore</button>
+          <label style="display: flex; align-items: center; gap: 4px;">
+            <input type="checkbox" v-model="sidebarCollapsed" />
+            Sidebar collapsed
+          </label>
+        </div>
+
+        <div style="height: calc(100% - 60px);">
+          <Allotment
+            ref="allotmentRef"
+            @collapse="(index, key) => action('collapse')(index, key)"
+            @expand="(index, key) => action('expand')(index, key)"
+            @maximize="(index, key) => action('maximize')(index, key)"
+            @restore="(index, key) => action('restore')(index, key)"
+          >
+            <Pane key="sidebar" v-model:collapsed="sidebarCollapsed" :preferred-size="200" snap>
+              <Content title="Sidebar" subtitle="Collapses to zero and remembers its size" />
+            </Pane>
+            <Pane key="editor">
+              <Content title="Editor" subtitle="Can be maximized" />
+            </Pane>
+            <Pane key="panel" :min-size="80">
+              <Content title="Panel" subtitle="Shrinks to its minimum when the editor is maximized" />
+            </Pane>
+          </Allotment>
+        </div>
+      </div>
+    `,
+  }),
+}
+
+// Switch layouts as the container is resized
+export const ResponsiveBreakpoints: Story = {
+  render: () => ({
+    components: { Allotment, Pane, Content },
+    setup() {
+      const width = ref(900)
+      const breakpoints = [
+        { minWidth: 0, vertical: true, visiblePanes: ['editor', 'preview'] },
+        { minWidth: 500, visiblePanes: ['editor', 'preview'] },
+        { minWidth: 800, defaultSizes: [200, 400, 300] },
+      ]
+
+      return {
+        width,
+        breakpoints,
+        action,
+      }
+    },
+    template: `
+      <div style="height: 500px; border: 1px solid #ddd;">
+        <div style="padding: 12px; background: #f5f5f5; border-bottom: 1px solid #ddd; display: flex; gap: 8px; align-items: center;">
+          <label style="display: flex; align-items: center; gap: 4px;">
+            Width
+            <input type="range" min="300" max="1200" v-model.number="width" />
+            {{ width }}px
+          </label>
+        </div>
+
+        <div :style="{ height: 'calc(100% - 60px)', width: width + 'px' }">
+          <Allotment
+            :breakpoints="breakpoints"
+            @breakpoint-change="(breakpoint, previous) => action('breakpointChange')(breakpoint, previous)"
+          >
+            <Pane key="sidebar" :min-size="120">
+              <Content title="Sidebar" subtitle="Only shown from 800px" />
+            </Pane>
+            <Pane key="editor">
+              <Content title="Editor" subtitle="Sizes are remembered per breakpoint" />
+            </Pane>
+            <Pane key="preview">
+              <Content title="Preview" subtitle="Stacked below 500px" />
+            </Pane>
+          </Allotment>
+        </div>
+      </div>
+    `,
+  }),
+}
+
+// Hide, scroll or shrink panes which do not fit at their minimum sizes
+export const OverflowPolicies: Story = {
+  render: () => ({
+    components: { Allotment, Pane, Content },
+    setup() {
+      const width = ref(900)
+      const overflow = ref<'hide' | 'scroll' | 'shrink'>('hide')
+
+      return {
+        width,
+        overflow,
+        LayoutPriority,
+        action,
+      }
+    },
+    template: `
+      <div style="height: 500px; border: 1px solid #ddd;">
+        <div style="padding: 12px; background: #f5f5f5; border-bottom: 1px solid #ddd; display: flex; gap: 8px; align-items: center;">
+          <select v-model="overflow">
+            <option value="hide">hide</option>
+            <option value="scroll">scroll</option>
+            <option value="shrink">shrink</option>
+          </select>
+          <label style="display: flex; align-items: center; gap: 4px;">
+            Width
+            <input type="range" min="200" max="1200" v-model.number="width" />
+            {{ width }}px
+          </label>
+        </div>
+
+        <div :style="{ height: 'calc(100% - 60px)', width: width + 'px' }">
+          <Allotment :overflow="overflow" @visible-change="(index, visible) => action('visibleChange')(index, visible)">
+            <Pane :min-size="200">
+              <Content title="Sidebar" subtitle="Min: 200px" />
+            </Pane>
+            <Pane :min-size="300" :priority="LayoutPriority.High">
+              <Content title="Editor" subtitle="Min: 300px, hidden last" />
+            </Pane>
+            <Pane :min-size="200" :priority="LayoutPriority.Low">
+              <Content title="Outline" subtitle="Min: 200px, hidden first" />
+            </Pane>
+          </Allotment>
+        </div>
+      </div>
+    `,
+  }),
+}
+
+// Adjust or veto sizes with rules min and max sizes cannot express
+export const ResizeRules: Story = {
+  render: () => ({
+    components: { Allotment, Pane, Content },
+    setup() {
+      const recording = ref(true)
+
+      // Keep the preview at 40% or more while recording, and the two panels equal
+      function beforeResize({ sizes }: { sizes: number[] }) {
+        const total = sizes.reduce((a, b) => a + b, 0)
+        const preview = recording.value ? Math.max(sizes[0], total * 0.4) : sizes[0]
+        const panel = (total - preview) / 2
+
+        return [preview, panel, panel]
+      }
+
+      return {
+        recording,
+        beforeResize,
+      }
+    },
+    template: `
+      <div style="height: 500px; border: 1px solid #ddd;">
+        <div style="padding: 12px; background: #f5f5f5; border-bottom: 1px solid #ddd;">
+          <label><input type="checkbox" v-model="recording" /> Recording</label>
+        </div>
+
+        <div style="height: calc(100% - 45px);">
+          <Allotment :before-resize="beforeResize" :default-sizes="[400, 200, 200]">
+            <Pane>
+              <Content title="Preview" subtitle="At least 40% while recording" />
+            </Pane>
+            <Pane>
+              <Content title="Properties" subtitle="Always as wide as Layers" />
+            </Pane>
+            <Pane>
+              <Content title="Layers" subtitle="Always as wide as Properties" />
+            </Pane>
+          </Allotment>
+        </div>
+      </div>
+    `,
+  }),
+}
+
+// Shift-drag moves only the neighbouring panes, Alt-drag keeps a pane centred
+export const DragModes: Story = {
+  render: () => ({
+    components: { Allotment, Pane, Content },
+    setup() {
+      const cascade = ref(true)
+
+      return {
+        cascade,
+      }
+    },
+    template: `
+      <div style="height: 500px; border: 1px solid #ddd;">
+        <div style="padding: 12px; background: #f5f5f5; border-bottom: 1px solid #ddd;">
+          <label><input type="checkbox" v-model="cascade" /> Push other sashes</label>
+          <span style="color: #666; margin-left: 12px;">Hold Shift or Alt while you start dragging</span>
+        </div>
+
+        <div style="height: calc(100% - 45px);">
+          <Allotment :cascade="cascade" :min-size="80">
+            <Pane>
+              <Content title="Metrics" />
+            </Pane>
+            <Pane>
+              <Content title="Chart" subtitle="Alt-drag the sash before it to resize it around its centre" />
+            </Pane>
+            <Pane>
+              <Content title="Table" />
+            </Pane>
+            <Pane>
+              <Content title="Logs" />
+            </Pane>
+          </Allotment>
+        </div>
+      </div>
+    `,
+  }),
+}
+
+// Pick what double-clicking a sash does
+export const SashDoubleClick: Story = {
+  render: () => ({
+    components: { Allotment, Pane, Content },
+    setup() {
+      const action = ref('reset')
+      const lastReset = ref<number>()
+
+      return {
+        action,
+        lastReset,
+        actions: ['reset', 'distribute', 'collapse-before', 'collapse-after', 'toggle-maximize', 'none'],
+      }
+    },
+    template: `
+      <div style="height: 500px; border: 1px solid #ddd;">
+        <div style="padding: 12px; background: #f5f5f5; border-bottom: 1px solid #ddd;">
+          <label>
+            Double-click a sash to
+            <select v-model="action">
+              <option v-for="value in actions" :key="value" :value="value">{{ value }}</option>
+            </select>
+          </label>
+          <span v-if="lastReset !== undefined" style="color: #666; margin-left: 12px;">Reset from sash {{ lastReset }}</span>
+        </div>
+
+        <div style="height: calc(100% - 45px);">
+          <Allotment :sash-double-click="action" @reset="lastReset = $event">
+            <Pane :preferred-size="150">
+              <Content title="Outline" subtitle="Prefers 150px" />
+            </Pane>
+            <Pane>
+              <Content title="Editor" />
+            </Pane>
+            <Pane :preferred-size="200">
+              <Content title="Terminal" subtitle="Prefers 200px" />
+            </Pane>
+          </Allotment>
+        </div>
+      </div>
+    `,
+  }),
+}
+
+// Collapse and restore snappable panes with buttons on the sashes
+export const CollapseButtons: Story = {
+  render: () => ({
+    components: { Allotment, Pane, Content },
+    template: `
+      <div style="height: 500px; border: 1px solid #ddd;">
+        <Allotment collapse-buttons>
+          <Pane snap :min-size="150" :preferred-size="200">
+            <Content title="Explorer" subtitle="Snaps, so its sash has a button" />
+          </Pane>
+          <Pane>
+            <Content title="Editor" />
+          </Pane>
+          <Pane snap :min-size="150" :preferred-size="250">
+            <Content title="Chat" subtitle="Snaps, so its sash has a button" />
+          </Pane>
+        </Allotment>
+      </div>
+    `,
+  }),
+}
+
+// Render grip dots in the sashes and disable one of them
+export const CustomSashes: Story = {
+  render: () => ({
+    components: { Allotment, Pane, Content },
+    setup() {
+      return {
+        sashOptions: (index: number) => ({ size: 12, hoverDelay: 100, disabled: index === 1 }),
+        SashState,
+      }
+    },
+    template: `
+      <div style="height: 500px; border: 1px solid #ddd;">
+        <Allotment :sash-options="sashOptions">
+          <template #sash="{ index, dragging, hovered, state }">
+            <div
+              v-if="state !== SashState.Disabled"
+              :title="'Sash ' + index"
+              :style="{
+                position: 'absolute',
+                top: '50%',
+                left: '50%',
+                transform: 'translate(-50%, -50%)',
+                display: 'flex',
+                flexDirection: 'column',
+                gap: '3px',
+              }"
+            >
+              <span
+                v-for="dot in 3"
+                :key="dot"
+                :style="{
+                  width: '4px',
+                  height: '4px',
+                  borderRadius: '50%',
+                  background: dragging || hovered ? '#007fd4' : '#999',
+                }"
+              />
+            </div>
+          </template>
+          <Pane>
+            <Content title="Files" subtitle="Grab the dots to resize" />
+          </Pane>
+          <Pane>
+            <Content title="Editor" subtitle="The sash after it is disabled" />
+          </Pane>
+          <Pane>
+            <Content title="Preview" />
+          </Pane>
+        </Allotment>
+      </div>
+    `,
+  }),
+}
+
+// Give two side-by-side layouts their own sash size and theme
+export const ScopedTheme: Story = {
+  render: () => ({
+    components: { Allotment, Pane, Content },
+    template: `
+      <div style="height: 500px; border: 1px solid #ddd;">
+        <Allotment vertical>
+          <Pane>
+            <Allotment :sash-size="4" :sash-hover-size="1">
+              <Pane>
+                <Content title="Thin" subtitle="4px sashes" />
+              </Pane>
+              <Pane>
+                <Content title="Global" subtitle="Theme and colours" />
+              </Pane>
+            </Allotment>
+          </Pane>
+          <Pane>
+            <Allotment
+              :sash-size="16"
+              :sash-hover-size="6"
+              :theme="{ separatorBorder: '#333', focusBorder: 'orange', sashHoverTransitionDuration: '0.4s' }"
+            >
+              <Pane>
+                <Content title="Wide" subtitle="16px orange sashes" />
+              </Pane>
+              <Pane>
+                <Content title="Themed" subtitle="Dark separator" />
+              </Pane>
+            </Allotment>
+          </Pane>
+        </Allotment>
+      </div>
+    `,
+  }),
+}
+
+// Read and change the layout of a pane from within it
+export const PaneComposable: Story = {
+  render: () => ({
+    components: { Allotment, Pane, PaneInfo },
+    template: `
+      <div style="height: 500px; border: 1px solid #ddd;">
+        <Allotment :animate="true">
+          <Pane key="first" snap>
+            <PaneInfo />
+          </Pane>
+          <Pane key="second">
+            <PaneInfo />
+          </Pane>
+          <Pane key="third" snap>
+            <PaneInfo />
+          </Pane>
+        </Allotment>
+      </div>
+    `,
+  }),
+}
+
+// Control the layout from a component deep inside it
+export const ControlFromWithin: Story = {
+  render: () => ({
+    components: { Allotment, Pane, Content, SidebarToggle },
+    template: `
+      <div style="height: 500px; border: 1px solid #ddd;">
+        <Allotment>
+          <Pane key="sidebar" :preferred-size="200">
+            <Content title="Sidebar" subtitle="Toggled from the editor toolbar" />
+          </Pane>
+          <Pane key="editor">
+            <SidebarToggle />
+            <Content title="Editor" subtitle="The toolbar calls useAllotment()" />
+          </Pane>
+          <Pane key="outline" :preferred-size="150">
+            <Content title="Outline" subtitle="Shown and hidden with setVisible" />
+          </Pane>
+        </Allotment>
+      </div>
+    `,
+  }),
+}
@@ -1,4 +1,5 @@
 import type { Meta, StoryObj } from '@storybook/vue3-vite'
+import { ref } from 'vue'
 import { Allotment, Pane } from '../lib'
 import Content from './Content.vue'
 
@@ -230,6 +231,76 @@ export const WithSnap: Story = {
   }),
 }
 
+// Collapsed size
+export const WithCollapsedSize: Story = {
+  args: {
+    collapsedSize: 28,
+    snap: true,
+  },
+  render: args => ({
+    components: { Allotment, Pane, Content },
+    setup() {
+      const collapsed = ref(false)
+
+      return { args, collapsed }
+    },
+    template: `
+      <div style="height: 100dvh;">
+        <Allotment vertical>
+          <Pane key="panel" v-bind="args" v-model:collapsed="collapsed">
+            <div style="height: 28px; display: flex; align-items: center; gap: 8px; padding: 0 8px; background: #eee;">
+              <button @click="collapsed = !collapsed">{{ collapsed ? 'Expand' : 'Collapse' }}</button>
+              Panel
+            </div>
+            <Content
+              title="Collapsible Panel"
+              subtitle="Snaps down to its 28px header"
+            />
+          </Pane>
+          <Pane key="editor">
+            <Content
+              title="Editor"
+              subtitle="Takes the space the panel gives up"
+            />
+          </Pane>
+        </Allotment>
+      </div>
+    `,
+  }),
+}
+
+// Snap points
+export const WithSnapPoints: Story = {
+  args: {
+    snapPoints: [200, '33%', '50%'],
+    snapThreshold: 12,
+  },
+  render: args => ({
+    components: { Allotment, Pane, Content },
+    setup() {
+      return { args }
+    },
+    template: `
+      <div style="height: 100dvh;">
+        <Allotment :snap-grid="10">
+          <Pane key="snap-points" v-bind="args">
+            <Content
+              title="Snap Points"
+              subtitle="Sticks at 200px, 33% and 50%. Double-click the sash to cycle"
+            />
+          </Pane>
+          <Pane key="snap-grid">
+            <Content
+              title="Regular Pane"
+              subtitle="Elsewhere the sash moves in 10px steps"
+            />
+          </Pane>
+        </Allotment>
+      </div>
+    `,
+  }),
+}
+
 // Hidden pane
 export const HiddenPane: Story = {
   args: {